@@ -0,0 +1,176 @@
+import { bold } from 'chalk';
+import { createHash } from 'crypto';
+import { stat, Stats } from 'fs';
+import { dirname, join, resolve } from 'path';
+
+import { ExportContext } from './context';
+import { indent } from './log';
+import { ensureDir, exists, getFile, setFile } from './util';
+
+/**
+ * The version of the format of the cache, a cache written in another format is ignored
+ */
+const CACHE_VERSION = 1;
+
+/**
+ * The directory the cache is stored in by default, relative to the root of the project
+ */
+export const DEFAULT_CACHE_DIR = join('node_modules', '.cache', 'cli-export-project');
+
+/**
+ * A file which was read during an export, along with the modification time and size it had when it was read
+ */
+interface CacheEntry {
+	/**
+	 * The modification time of the file, in milliseconds since the epoch
+	 */
+	mtime: number;
+
+	/**
+	 * The size of the file in bytes
+	 */
+	size: number;
+
+	/**
+	 * The text of the file
+	 */
+	text: string;
+}
+
+/**
+ * The contents of a cache file
+ */
+interface CacheJson {
+	files: { [filename: string]: CacheEntry };
+	version: number;
+}
+
+/**
+ * The cache which the files of an export are read through
+ */
+export interface FileCache {
+	/**
+	 * The filename the cache is stored in
+	 */
+	filename: string;
+
+	/**
+	 * The files which were cached by the previous export, keyed by their resolved path
+	 */
+	files: { [filename: string]: CacheEntry };
+
+	/**
+	 * The number of files which were read from the cache
+	 */
+	hits: number;
+
+	/**
+	 * The files which were read during this export, which are what is stored when the cache is closed
+	 */
+	used: { [filename: string]: CacheEntry };
+}
+
+/**
+ * An async function which resolves to the stats of a file, or `undefined` if it cannot be stat'ed
+ * @param filename The filename to stat
+ */
+async function getStats(filename: string) {
+	return new Promise<Stats | undefined>((resolve) => {
+		stat(filename, (err, stats) => {
+			resolve(err ? undefined : stats);
+		});
+	});
+}
+
+/**
+ * Return the filename of the cache of a project in a cache directory.  Each project has its own cache file, named by
+ * the hash of its resolved root, so that projects can share a cache directory.
+ * @param directory The cache directory
+ * @param root The root directory of the project
+ */
+export function getCacheFilename(directory: string, root: string) {
+	const hash = createHash('sha256')
+		.update(resolve(root))
+		.digest('hex');
+	return join(directory, `${hash.slice(0, 16)}.json`);
+}
+
+/**
+ * An async function which opens the cache of a project for an export, so that until it is closed, files which the
+ * export reads with `getCachedFile` are reused from the previous export when their modification time and size have not
+ * changed.  A cache which cannot be read, or was written in another format, is ignored.
+ * @param context The state of the export
+ * @param directory The cache directory
+ * @param root The root directory of the project
+ */
+export async function openCache(context: ExportContext, directory: string, root: string) {
+	const filename = getCacheFilename(directory, root);
+	let files: CacheJson['files'] = {};
+	if (await exists(filename)) {
+		try {
+			const json: CacheJson = JSON.parse(await getFile(filename, context));
+			if (json.version === CACHE_VERSION) {
+				files = json.files;
+			}
+		} catch (e) {
+			context.verbose(indent(), bold.yellow('ignoring'), ` unreadable cache "${filename}"`);
+		}
+	}
+	context.verbose(indent(), bold.blue('using'), ` cache "${filename}"`);
+	context.cache = { filename, files, hits: 0, used: {} };
+}
+
+/**
+ * An async function which loads a file and resolves to its string data.  If the export has a cache open, and the file
+ * has the same modification time and size as when it was cached, the cached text is used instead of reading the file.
+ * @param context The state of the export
+ * @param filename The filename to get
+ */
+export async function getCachedFile(context: ExportContext, filename: string) {
+	const { cache } = context;
+	if (!cache) {
+		return getFile(filename, context);
+	}
+	const key = resolve(filename);
+	const stats = await getStats(filename);
+	const entry = cache.files[key];
+	if (stats && entry && entry.mtime === stats.mtime.getTime() && entry.size === stats.size) {
+		cache.used[key] = entry;
+		cache.hits++;
+		return entry.text;
+	}
+
+	const text = await getFile(filename, context);
+	if (stats) {
+		cache.used[key] = { mtime: stats.mtime.getTime(), size: stats.size, text };
+	}
+	return text;
+}
+
+/**
+ * An async function which closes the cache of an export, storing the files which were read while it was open, so that
+ * files which are no longer part of the project are dropped from it.  Failing to store the cache does not fail the
+ * export.
+ * @param context The state of the export
+ * @param save Store the cache, which is not done when the export failed
+ */
+export async function closeCache(context: ExportContext, save = true) {
+	const { cache } = context;
+	if (!cache) {
+		return;
+	}
+	const { filename, hits, used } = cache;
+	delete context.cache;
+	if (!save) {
+		return;
+	}
+
+	context.verbose(indent(), bold.blue('reused'), ` ${hits} of ${Object.keys(used).length} files from the cache`);
+	try {
+		await ensureDir(dirname(filename));
+		const json: CacheJson = { files: used, version: CACHE_VERSION };
+		await setFile(filename, JSON.stringify(json));
+	} catch (e) {
+		context.verbose(indent(), bold.yellow('unable'), ` to write cache "${filename}": ${e.message}`);
+	}
+}
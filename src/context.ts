@@ -0,0 +1,75 @@
+import { FileCache } from './cache';
+import { StrictModeError } from './errors';
+import { log } from './log';
+import { createReadLimit, ReadContext } from './util';
+
+/**
+ * The options which control the state of a single export
+ */
+export interface ContextOptions {
+	/**
+	 * The maximum number of files which are read at once, defaults to `DEFAULT_CONCURRENCY`
+	 */
+	concurrency?: number;
+
+	/**
+	 * Called with each warning, which is otherwise ignored
+	 */
+	onWarning?: (message: string) => void;
+
+	/**
+	 * Treat warnings as errors
+	 */
+	strict?: boolean;
+
+	/**
+	 * Log verbose output
+	 */
+	verbose?: boolean;
+}
+
+/**
+ * The state of a single export, which is passed to everything it calls instead of being kept by the modules, so that
+ * exports running at the same time do not interfere with each other
+ */
+export interface ExportContext extends ReadContext {
+	/**
+	 * The cache which files are read through, if one is open
+	 */
+	cache?: FileCache;
+
+	/**
+	 * Report a warning, or if warnings are treated as errors, throw it as a `StrictModeError`
+	 */
+	warn(message: string): void;
+}
+
+/**
+ * Create the state of a single export, throwing a `ProjectError` if the concurrency is not a positive integer
+ * @param options The options which control the export
+ */
+export function createContext({
+	concurrency,
+	onWarning,
+	strict = false,
+	verbose = false
+}: ContextOptions = {}): ExportContext {
+	return {
+		limit: createReadLimit(concurrency),
+
+		verbose(...text: any[]) {
+			if (verbose) {
+				log(...text);
+			}
+		},
+
+		warn(message: string) {
+			if (strict) {
+				throw new StrictModeError(message);
+			}
+			if (onWarning) {
+				onWarning(message);
+			}
+		}
+	};
+}
@@ -0,0 +1,298 @@
+import { bold } from 'chalk';
+import { basename, dirname, isAbsolute, join, normalize, relative, resolve } from 'path';
+
+import { getCachedFile } from './cache';
+import { ExportContext } from './context';
+import { ProjectFile, ProjectFileType } from './interfaces/project.json';
+import { JsonSchemaForNpmPackageJsonFiles as PackageJson } from './interfaces/package.json';
+import { indent } from './log';
+import { exists, getFile } from './util';
+
+/**
+ * The references a TypeScript file makes to other files, either by importing modules or with triple-slash directives
+ */
+export interface References {
+	/**
+	 * The names of the lib files referenced with `/// <reference lib="..." />`
+	 */
+	libs: string[];
+
+	/**
+	 * The module specifiers of `import`, `export ... from`, `require` and `import()`
+	 */
+	modules: string[];
+
+	/**
+	 * The paths referenced with `/// <reference path="..." />`
+	 */
+	paths: string[];
+
+	/**
+	 * The packages referenced with `/// <reference types="..." />`
+	 */
+	types: string[];
+}
+
+/**
+ * Matches a triple-slash reference directive, capturing the kind of reference and its value
+ */
+const REFERENCE = /^\s*\/\/\/\s*<reference\s+(lib|path|types)\s*=\s*['"]([^'"]+)['"]/gm;
+
+/**
+ * Matches a string literal or a comment.  When stripping comments, string literals are preserved except for any quotes
+ * they contain, so that a string cannot be mistaken for a module reference.
+ */
+const STRING_OR_COMMENT = /("(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*')|\/\*[\s\S]*?\*\/|\/\/[^\n]*/g;
+
+/**
+ * The statements and expressions which reference a module, capturing the module specifier
+ */
+const MODULE_REFERENCES = [
+	/\b(?:import|export)\s+(?:[\w$*{},\s]+?\s+from\s+)?['"]([^'"\n]+)['"]/g,
+	/\b(?:require|import)\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g
+];
+
+/**
+ * The location of the lib files of the TypeScript compiler, relative to the project root
+ */
+const LIB_PATH = join('node_modules', 'typescript', 'lib');
+
+/**
+ * Return all the matches of a global regular expression in some text
+ * @param pattern The regular expression
+ * @param text The text to match
+ */
+function matchAll(pattern: RegExp, text: string) {
+	const matches: RegExpExecArray[] = [];
+	let match: RegExpExecArray | null;
+	pattern.lastIndex = 0;
+	while ((match = pattern.exec(text))) {
+		matches.push(match);
+	}
+	return matches;
+}
+
+/**
+ * Find the modules and files referenced by the text of a TypeScript file
+ * @param text The text of the file
+ */
+export function getReferences(text: string): References {
+	const references: References = { libs: [], modules: [], paths: [], types: [] };
+
+	matchAll(REFERENCE, text).forEach(([, kind, value]) => {
+		references[kind === 'lib' ? 'libs' : kind === 'path' ? 'paths' : 'types'].push(value);
+	});
+
+	const code = text.replace(
+		STRING_OR_COMMENT,
+		(match, literal?: string) =>
+			literal ? literal[0] + literal.slice(1, -1).replace(/['"]/g, ' ') + literal[0] : ''
+	);
+	MODULE_REFERENCES.forEach((pattern) => {
+		matchAll(pattern, code).forEach(([, specifier]) => {
+			if (references.modules.indexOf(specifier) === -1) {
+				references.modules.push(specifier);
+			}
+		});
+	});
+
+	return references;
+}
+
+/**
+ * An async function which resolves to the first of the candidate filenames which exists, or `undefined` if none do
+ * @param root The root directory of the project, which the candidates are relative to
+ * @param candidates The candidate filenames
+ */
+async function findFile(root: string, candidates: string[]) {
+	for (const candidate of candidates) {
+		if (await exists(join(root, candidate))) {
+			return normalize(candidate);
+		}
+	}
+}
+
+/**
+ * Return the candidate filenames of a module or a directory, in the order the TypeScript compiler tries them
+ * @param path The path of the module, without an extension
+ * @param extensions The extensions to try
+ */
+function getCandidates(path: string, extensions: string[]) {
+	return [...extensions.map((ext) => `${path}${ext}`), ...extensions.map((ext) => join(path, `index${ext}`))];
+}
+
+/**
+ * Return the `node_modules` directories which are searched for packages referenced from a file, nearest first
+ * @param filename The filename of the referencing file, relative to the project root
+ */
+function getNodeModulesPaths(filename: string) {
+	const paths: string[] = [];
+	for (
+		let directory = dirname(filename);
+		directory !== '.' && !/^\.\.([\/\\]|$)/.test(directory) && dirname(directory) !== directory;
+		directory = dirname(directory)
+	) {
+		if (basename(directory) !== 'node_modules') {
+			paths.push(join(directory, 'node_modules'));
+		}
+	}
+	return [...paths, 'node_modules'];
+}
+
+/**
+ * An async function which resolves to the declaration file of a package directory, as referenced by the `typings` or
+ * `types` of its `package.json`, or its `index.d.ts`
+ * @param context The state of the export
+ * @param root The root directory of the project
+ * @param directory The directory of the package, relative to the project root
+ */
+async function resolvePackageDirectory(context: ExportContext, root: string, directory: string) {
+	const packageJsonFilename = join(directory, 'package.json');
+	const candidates: string[] = [];
+
+	if (await exists(join(root, packageJsonFilename))) {
+		let packageJson: PackageJson = {};
+		try {
+			packageJson = JSON.parse(await getFile(join(root, packageJsonFilename), context));
+		} catch (e) {
+			/* fall back to the index */
+		}
+		const typings = packageJson.typings || packageJson.types;
+		if (typings) {
+			const path = join(directory, typings);
+			candidates.push(
+				...(/\.d\.ts$/.test(path) ? [path] : getCandidates(path.replace(/\.(js|ts)$/, ''), ['.d.ts']))
+			);
+		}
+	}
+
+	return findFile(root, [...candidates, join(directory, 'index.d.ts')]);
+}
+
+/**
+ * An async function which resolves to the declaration file of a package, or of a module within a package, searching
+ * the `node_modules` directories from the referencing file up to the project root
+ * @param context The state of the export
+ * @param root The root directory of the project
+ * @param filename The filename of the referencing file
+ * @param specifier The package name, optionally followed by the path of a module within the package
+ * @param typesFirst Search `@types` before the package itself, like `/// <reference types="..." />`
+ */
+async function resolvePackage(
+	context: ExportContext,
+	root: string,
+	filename: string,
+	specifier: string,
+	typesFirst = false
+) {
+	const segments = specifier.split('/');
+	const packageName = segments.slice(0, specifier[0] === '@' ? 2 : 1).join('/');
+	const subpath = segments.slice(specifier[0] === '@' ? 2 : 1).join('/');
+	const typesName = join('@types', packageName.replace(/^@([^\/]+)\//, '$1__'));
+	const names = typesFirst ? [typesName, packageName] : [packageName, typesName];
+
+	for (const nodeModules of getNodeModulesPaths(filename)) {
+		for (const name of names) {
+			const directory = join(nodeModules, name);
+			const resolved = subpath
+				? await findFile(root, getCandidates(join(directory, subpath.replace(/\.js$/, '')), ['.d.ts']))
+				: await resolvePackageDirectory(context, root, directory);
+			if (resolved) {
+				return resolved;
+			}
+		}
+	}
+}
+
+/**
+ * An async function which resolves to the filename, relative to the project root, of a module referenced by a file.
+ * Relative modules resolve to TypeScript or declaration files, while packages only resolve to declaration files.
+ * @param context The state of the export
+ * @param root The root directory of the project
+ * @param filename The filename of the referencing file, relative to the project root
+ * @param specifier The module specifier
+ */
+export async function resolveModule(context: ExportContext, root: string, filename: string, specifier: string) {
+	if (isAbsolute(specifier) || /^\.\.?([\/\\]|$)/.test(specifier)) {
+		const path = relative(resolve(root), resolve(root, dirname(filename), specifier.replace(/\.js$/, '')));
+		return findFile(root, getCandidates(path, ['.ts', '.tsx', '.d.ts']));
+	}
+	return resolvePackage(context, root, filename, specifier);
+}
+
+/**
+ * An async function which walks the import and reference graph of the source files of a project, resolving to the
+ * declaration files and lib files which are reachable from them, excluding the sources themselves.  Modules which
+ * cannot be resolved, such as those only declared by an ambient `declare module`, are skipped.
+ * @param context The state of the export
+ * @param root The root directory of the project, which filenames are relative to
+ * @param sources The files to start walking from
+ * @param known Files which have already been walked, which are neither walked again nor included
+ */
+export async function getReachableFiles(
+	context: ExportContext,
+	root: string,
+	sources: ProjectFile[],
+	known: ProjectFile[] = []
+): Promise<ProjectFile[]> {
+	const seen = new Set([...sources, ...known].map(({ name }) => normalize(name)));
+	const queue = sources.filter(({ name }) => /\.tsx?$/.test(name));
+	const reached: ProjectFile[] = [];
+
+	/* queue a file which has not been seen before, reading it if it is not a project source */
+	const add = async (name: string, type: ProjectFileType) => {
+		if (seen.has(name)) {
+			return;
+		}
+		seen.add(name);
+		const file = {
+			name,
+			text: await getCachedFile(context, join(root, type === ProjectFileType.Lib ? LIB_PATH : '', name)),
+			type
+		};
+		reached.push(file);
+		queue.push(file);
+	};
+
+	while (queue.length) {
+		const { name, text, type } = queue.shift()!;
+		const { libs, modules, paths, types } = getReferences(text);
+
+		for (const lib of libs) {
+			const libFilename = `lib.${lib.toLowerCase()}.d.ts`;
+			if (await exists(join(root, LIB_PATH, libFilename))) {
+				await add(libFilename, ProjectFileType.Lib);
+			}
+		}
+		if (type === ProjectFileType.Lib) {
+			/* lib files reference the other lib files they are made up of by path, which stay within the lib files */
+			for (const path of paths) {
+				const libFilename = normalize(join(dirname(name), path));
+				if (!/^\.\.([\/\\]|$)/.test(libFilename) && (await exists(join(root, LIB_PATH, libFilename)))) {
+					await add(libFilename, ProjectFileType.Lib);
+				}
+			}
+			continue;
+		}
+
+		const resolved = [
+			...(await Promise.all(
+				paths.map((path) => findFile(root, [relative(resolve(root), resolve(root, dirname(name), path))]))
+			)),
+			...(await Promise.all(types.map((typesName) => resolvePackage(context, root, name, typesName, true)))),
+			...(await Promise.all(modules.map((specifier) => resolveModule(context, root, name, specifier))))
+		];
+		const references = [...paths, ...types, ...modules];
+
+		for (let i = 0; i < resolved.length; i++) {
+			const filename = resolved[i];
+			if (!filename) {
+				context.verbose(indent(2), bold.yellow('unresolved'), ` "${references[i]}" referenced by "${name}"`);
+			} else if (/\.d\.ts$/.test(filename)) {
+				await add(filename, ProjectFileType.Definition);
+			}
+		}
+	}
+
+	return reached;
+}
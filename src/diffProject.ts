@@ -0,0 +1,373 @@
+import { bold, cyan, green, red, underline } from 'chalk';
+import { stdout } from 'process';
+
+import { InvalidBundleError, ProjectError } from './errors';
+import { readBundle } from './formats';
+import { ProjectFile, ProjectJson, ResolvedDependency } from './interfaces/project.json';
+import { indent, log, setStderr, setVerbose, verbose } from './log';
+import { createUnifiedDiff } from './textDiff';
+import { validateProjectJson } from './validate';
+
+/**
+ * The arguments of `diffProject`
+ */
+export interface DiffArgs {
+	/**
+	 * The path to the old project bundle
+	 */
+	from: string;
+
+	/**
+	 * Write the differences to stdout as JSON instead of describing them
+	 */
+	json: boolean;
+
+	/**
+	 * The path to the new project bundle
+	 */
+	to: string;
+
+	/**
+	 * Provide verbose output when comparing the project bundles
+	 */
+	verbose: boolean;
+}
+
+/**
+ * A file which was added, removed or changed between two project bundles
+ */
+export interface FileChange {
+	/**
+	 * How the file changed
+	 */
+	change: 'added' | 'removed' | 'changed';
+
+	/**
+	 * The unified diff of the text of a changed project file
+	 */
+	diff?: string;
+
+	/**
+	 * The name of the file
+	 */
+	name: string;
+}
+
+/**
+ * A value which was added, removed or changed between two project bundles, where `from` is missing for an added value
+ * and `to` is missing for a removed value
+ */
+export interface ValueChange {
+	from?: any;
+	to?: any;
+}
+
+/**
+ * A dependency which was added, removed or changed its semver range or, for a resolved dependency, its version
+ */
+export interface DependencyChange extends ValueChange {
+	/**
+	 * The name of the package, which for a resolved dependency is preceded by the names of the packages which depend
+	 * on each other down to it, separated by `" > "`
+	 */
+	name: string;
+}
+
+/**
+ * A value of a configuration which was added, removed or changed
+ */
+export interface ConfigChange extends ValueChange {
+	/**
+	 * The path of the value in the configuration, such as `compilerOptions.target`
+	 */
+	path: string;
+}
+
+/**
+ * The differences between two project bundles
+ */
+export interface ProjectDiff {
+	/**
+	 * The changed semver ranges of the dependencies, and the changed versions of the resolved dependencies
+	 */
+	dependencies: {
+		development: DependencyChange[];
+		production: DependencyChange[];
+		resolved: {
+			development: DependencyChange[];
+			production: DependencyChange[];
+		};
+	};
+
+	/**
+	 * The changed values of the `.dojorc`
+	 */
+	dojorc: ConfigChange[];
+
+	/**
+	 * The change of the hash of the environment bundle, when the environment was split out of either bundle
+	 */
+	environment?: ValueChange;
+
+	/**
+	 * The added, removed and changed environment files
+	 */
+	environmentFiles: FileChange[];
+
+	/**
+	 * The added, removed and changed project files
+	 */
+	files: FileChange[];
+
+	/**
+	 * The changed values of the `tsconfig.json`
+	 */
+	tsconfig: ConfigChange[];
+}
+
+/**
+ * Return `true` if a value is a plain object, rather than an array or a primitive
+ * @param value The value
+ */
+function isObject(value: any) {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Return the names of the keys of two objects, sorted
+ * @param from The first object
+ * @param to The second object
+ */
+function getKeys(from: object, to: object) {
+	return [...new Set([...Object.keys(from), ...Object.keys(to)])].sort();
+}
+
+/**
+ * Return the files which were added, removed or changed, sorted by name
+ * @param from The files of the old bundle
+ * @param to The files of the new bundle
+ * @param textDiffs Include the unified diff of the text of each changed file
+ */
+function diffFiles(from: ProjectFile[], to: ProjectFile[], textDiffs: boolean) {
+	const fromFiles = new Map(from.map((file): [string, ProjectFile] => [file.name, file]));
+	const toFiles = new Map(to.map((file): [string, ProjectFile] => [file.name, file]));
+	const changes: FileChange[] = [];
+	[...new Set([...fromFiles.keys(), ...toFiles.keys()])].sort().forEach((name) => {
+		const fromFile = fromFiles.get(name);
+		const toFile = toFiles.get(name);
+		if (!fromFile) {
+			changes.push({ change: 'added', name });
+		} else if (!toFile) {
+			changes.push({ change: 'removed', name });
+		} else if (fromFile.text !== toFile.text || fromFile.type !== toFile.type) {
+			const diff = textDiffs ? createUnifiedDiff(name, fromFile.text, toFile.text) : '';
+			changes.push(diff ? { change: 'changed', diff, name } : { change: 'changed', name });
+		}
+	});
+	return changes;
+}
+
+/**
+ * Return the changes between two maps of values, such as the semver ranges of dependencies
+ * @param from The old values
+ * @param to The new values
+ */
+function diffValues(from: { [name: string]: string } = {}, to: { [name: string]: string } = {}) {
+	return getKeys(from, to)
+		.filter((name) => from[name] !== to[name])
+		.map((name): DependencyChange => ({ from: from[name], name, to: to[name] }));
+}
+
+/**
+ * Return a map of the installed versions of resolved dependencies, by the path to each package
+ * @param dependencies The resolved dependencies
+ */
+function getVersions(dependencies: ResolvedDependency[] = []) {
+	const versions: { [name: string]: string } = {};
+	dependencies.forEach(({ name, path, range, version }) => {
+		versions[[...path, name].join(' > ')] = version || range;
+	});
+	return versions;
+}
+
+/**
+ * Return the values which were added, removed or changed between two configurations, such as `tsconfig.json`, by
+ * their paths.  Objects are compared key by key, while arrays and other values are compared as a whole.
+ * @param from The old configuration
+ * @param to The new configuration
+ * @param path The path of the configurations
+ */
+function diffConfig(from: any, to: any, path = ''): ConfigChange[] {
+	if (isObject(from) && isObject(to)) {
+		return getKeys(from, to).reduce(
+			(changes, key) => [...changes, ...diffConfig(from[key], to[key], path ? `${path}.${key}` : key)],
+			<ConfigChange[]>[]
+		);
+	}
+	return JSON.stringify(from) === JSON.stringify(to) ? [] : [{ from, path, to }];
+}
+
+/**
+ * Return the differences between two project bundles.  Files are compared by name, with a unified diff of the text
+ * of each changed project file, dependencies by their semver ranges and installed versions, and the `tsconfig.json`
+ * and `.dojorc` value by value.
+ * @param from The old project bundle
+ * @param to The new project bundle
+ */
+export function diffProjectJson(from: ProjectJson, to: ProjectJson): ProjectDiff {
+	const { resolved: fromResolved = { development: [], production: [] } } = from.dependencies;
+	const { resolved: toResolved = { development: [], production: [] } } = to.dependencies;
+	const diff: ProjectDiff = {
+		dependencies: {
+			development: diffValues(from.dependencies.development, to.dependencies.development),
+			production: diffValues(from.dependencies.production, to.dependencies.production),
+			resolved: {
+				development: diffValues(getVersions(fromResolved.development), getVersions(toResolved.development)),
+				production: diffValues(getVersions(fromResolved.production), getVersions(toResolved.production))
+			}
+		},
+		dojorc: diffConfig(from.dojorc || {}, to.dojorc || {}),
+		environmentFiles: diffFiles(from.environmentFiles, to.environmentFiles, false),
+		files: diffFiles(from.files, to.files, true),
+		tsconfig: diffConfig(from.tsconfig, to.tsconfig)
+	};
+	if (from.environment !== to.environment) {
+		diff.environment = { from: from.environment, to: to.environment };
+	}
+	return diff;
+}
+
+/**
+ * Return the list of every change in the differences between two project bundles
+ * @param diff The differences
+ */
+function getChanges({ dependencies, dojorc, environment, environmentFiles, files, tsconfig }: ProjectDiff) {
+	const { development, production, resolved } = dependencies;
+	return [
+		...files,
+		...environmentFiles,
+		...(environment ? [environment] : []),
+		...production,
+		...development,
+		...resolved.production,
+		...resolved.development,
+		...tsconfig,
+		...dojorc
+	];
+}
+
+/**
+ * Return how a value changed, as a colored verb
+ * @param change The change of the value
+ */
+function getVerb({ from, to }: ValueChange) {
+	return from === undefined ? bold.green('added') : to === undefined ? bold.red('removed') : bold.yellow('changed');
+}
+
+/**
+ * Describe how a value changed, with its old and new values
+ * @param change The change of the value
+ */
+function describeValues({ from, to }: ValueChange) {
+	if (from === undefined || to === undefined) {
+		return JSON.stringify(from === undefined ? to : from);
+	}
+	return `${JSON.stringify(from)} to ${JSON.stringify(to)}`;
+}
+
+/**
+ * Color a line of a unified diff
+ * @param line The line
+ */
+function colorDiffLine(line: string) {
+	switch (line[0]) {
+		case '+':
+			return green(line);
+		case '-':
+			return red(line);
+		case '@':
+			return cyan(line);
+		default:
+			return line;
+	}
+}
+
+/**
+ * Log the differences between two project bundles for people to read
+ * @param diff The differences
+ */
+function logDiff(diff: ProjectDiff) {
+	const fileVerbs = { added: bold.green('added'), changed: bold.yellow('changed'), removed: bold.red('removed') };
+	const logFiles = (files: FileChange[], kind: string) => {
+		files.forEach(({ change, diff, name }) => {
+			log(indent(), fileVerbs[change], ` ${kind} "${name}"`);
+			if (diff) {
+				diff.split('\n').forEach((line) => log(indent(2), colorDiffLine(line)));
+			}
+		});
+	};
+	const logValues = (changes: (DependencyChange | ConfigChange)[], kind: string) => {
+		changes.forEach((change) => {
+			const name = 'path' in change ? (<ConfigChange>change).path : (<DependencyChange>change).name;
+			log(indent(), getVerb(change), ` ${kind} "${name}": ${describeValues(change)}`);
+		});
+	};
+
+	logFiles(diff.files, 'file');
+	logFiles(diff.environmentFiles, 'environment file');
+	if (diff.environment) {
+		log(indent(), getVerb(diff.environment), ` environment bundle: ${describeValues(diff.environment)}`);
+	}
+	logValues(diff.dependencies.production, 'production dependency');
+	logValues(diff.dependencies.development, 'development dependency');
+	logValues(diff.dependencies.resolved.production, 'resolved production dependency');
+	logValues(diff.dependencies.resolved.development, 'resolved development dependency');
+	logValues(diff.tsconfig, 'tsconfig');
+	logValues(diff.dojorc, 'dojorc');
+}
+
+/**
+ * An async function which reads a project bundle in any of the formats, rejecting with an `InvalidBundleError` if it
+ * is not a valid project bundle
+ * @param filename The filename of the bundle
+ */
+async function readProjectBundle(filename: string) {
+	verbose(indent(), bold.blue('reading'), ` "${filename}"`);
+	const bundle = await readBundle(filename);
+	const problems = validateProjectJson(bundle);
+	if (problems.length) {
+		throw new InvalidBundleError(filename, problems);
+	}
+	return <ProjectJson>bundle;
+}
+
+/**
+ * An async function which resolves when the differences between two project bundles have been reported, either for
+ * people to read or as JSON written to stdout, in which case the progress is logged to stderr.  If the bundles cannot
+ * be compared, it rejects with a `ProjectError`.
+ */
+export default async function diffProject({ from, json, to, verbose: verboseFlag }: DiffArgs) {
+	setVerbose(verboseFlag);
+	setStderr(json);
+
+	log(underline('\nDiff project bundles'));
+
+	try {
+		const diff = diffProjectJson(await readProjectBundle(from), await readProjectBundle(to));
+		const count = getChanges(diff).length;
+
+		if (json) {
+			stdout.write(JSON.stringify(diff, null, '\t') + '\n');
+		} else {
+			logDiff(diff);
+		}
+		log(
+			indent(),
+			bold.green('compared'),
+			` "${from}" to "${to}": ${count ? `${count} difference${count === 1 ? '' : 's'}` : 'no differences'}\n`
+		);
+	} catch (e) {
+		verbose(indent(), bold.red('errored'), ' ', e.stack, '\n');
+		throw e instanceof ProjectError ? e : new ProjectError(e.message);
+	}
+}
@@ -0,0 +1,28 @@
+import { compareFiles, getBundleHash } from './formats';
+import { EnvironmentJson, ProjectJson } from './interfaces/project.json';
+
+/**
+ * Return the content hash of an environment bundle, which is the hex encoded SHA-256 digest of its JSON
+ * @param environment The environment bundle
+ */
+export function getEnvironmentHash(environment: EnvironmentJson) {
+	return getBundleHash(environment);
+}
+
+/**
+ * Split the environment files out of a project bundle into an environment bundle.  The environment files are sorted
+ * by name, so that projects with the same environment share the same environment bundle, and the returned project
+ * bundle references the environment bundle by its hash instead of inlining the files.
+ * @param project The project bundle
+ */
+export function splitEnvironment(project: ProjectJson) {
+	const environmentFiles = [...project.environmentFiles].sort(compareFiles);
+	const environment: EnvironmentJson = { environmentFiles };
+	const hash = getEnvironmentHash(environment);
+
+	return {
+		environment,
+		hash,
+		project: { ...project, environment: hash, environmentFiles: [] }
+	};
+}
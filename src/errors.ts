@@ -0,0 +1,82 @@
+/**
+ * The base class of the errors which cause a command to fail.  `@dojo/cli` exits the process with the `exitCode` of
+ * an error which is thrown by a command.
+ */
+export class ProjectError extends Error {
+	exitCode = 1;
+
+	constructor(message: string) {
+		super(message);
+		this.name = 'ProjectError';
+	}
+}
+
+/**
+ * Thrown when a project does not contain the configuration files required to export it
+ */
+export class MissingConfigError extends ProjectError {
+	constructor(public path: string, public filenames: string[]) {
+		super(`Path "${path}" does not contain a "${filenames.join('" and "')}".`);
+		this.name = 'MissingConfigError';
+	}
+}
+
+/**
+ * Thrown when a file cannot be read
+ */
+export class UnreadableFileError extends ProjectError {
+	constructor(public filename: string, reason: string) {
+		super(`Unable to read "${filename}": ${reason}`);
+		this.name = 'UnreadableFileError';
+	}
+}
+
+/**
+ * Thrown when a package, or a file within a package, cannot be resolved from the project
+ */
+export class UnresolvablePackageError extends ProjectError {
+	constructor(public packageName: string, message: string = `Unable to resolve package "${packageName}".`) {
+		super(message);
+		this.name = 'UnresolvablePackageError';
+	}
+}
+
+/**
+ * Thrown when the index HTML document of a project is not one of its project files
+ */
+export class MissingIndexError extends ProjectError {
+	constructor(public index: string) {
+		super(`Unable to find index "${index}" in project.`);
+		this.name = 'MissingIndexError';
+	}
+}
+
+/**
+ * Thrown when a bundle does not match the format of a project bundle
+ */
+export class InvalidBundleError extends ProjectError {
+	constructor(public filename: string, public problems: string[]) {
+		super(`Bundle "${filename}" is invalid: ${problems.join(', ')}.`);
+		this.name = 'InvalidBundleError';
+	}
+}
+
+/**
+ * Thrown when a project bundle does not type check in isolation, from only its own files
+ */
+export class TypeCheckError extends ProjectError {
+	constructor(public diagnostics: string[]) {
+		super(`Bundle does not type check in isolation, diagnostics: ${diagnostics.length}.`);
+		this.name = 'TypeCheckError';
+	}
+}
+
+/**
+ * Thrown instead of logging a warning when running in strict mode
+ */
+export class StrictModeError extends ProjectError {
+	constructor(warning: string) {
+		super(`${warning} (warnings are errors in strict mode)`);
+		this.name = 'StrictModeError';
+	}
+}
@@ -1,14 +1,41 @@
 import { bold, underline } from 'chalk';
-import { access, constants, readFile, writeFile } from 'fs';
-import * as glob from 'glob';
-import { extname, join, normalize, relative } from 'path';
-import { chdir, cwd } from 'process';
-import * as resolveCwd from 'resolve-cwd';
+import { createWriteStream } from 'fs';
+import { dirname, extname, join, normalize, relative, resolve } from 'path';
+import { stdout } from 'process';
 
 import { ExportArgs } from './main';
-import { ProjectFile, ProjectFileType, ProjectJson } from './interfaces/project.json';
+import { closeCache, getCachedFile, openCache, DEFAULT_CACHE_DIR } from './cache';
+import { createContext, ExportContext } from './context';
+import { getReachableFiles } from './definitions';
+import { MissingConfigError, MissingIndexError, ProjectError, UnresolvablePackageError } from './errors';
+import { splitEnvironment } from './environment';
+import {
+	compareFiles,
+	getBundleFilename,
+	getProjectFilename,
+	sortKeys,
+	writeBundle,
+	BundleFormat,
+	BundleLayout
+} from './formats';
+import { addFileHashes, addHeader } from './header';
+import {
+	EnvironmentJson,
+	ProjectFile,
+	ProjectFileType,
+	ProjectJson,
+	ResolvedDependency
+} from './interfaces/project.json';
 import { JsonSchemaForNpmPackageJsonFiles as PackageJson } from './interfaces/package.json';
-import { indent, log, setVerbose, verbose } from './log';
+import { parseJsonc } from './json';
+import { InstalledPackage, PackageResolver, readLockfile } from './lockfile';
+import { indent, log, setStderr, setStrict, setVerbose, verbose, warn } from './log';
+import { getTranspiledNames, getTranspileOptions, isTranspilable, isTranspiledFile, transpileFile } from './transpile';
+import { getIncludedFiles, readTsconfig } from './tsconfig';
+import { readTslint } from './tslint';
+import { exists, getFile, getGlob, requireResolve, requireTypeScript } from './util';
+import verifyProject from './verify';
+import { watchProject } from './watch';
 
 /**
  * Including both interface files from @dojo/loader causes issues, therefore we will manually exclude one of
@@ -16,10 +43,71 @@ import { indent, log, setVerbose, verbose } from './log';
  */
 const DOJO_EXCLUDE = /@dojo\/loader\/interfaces\.d\.ts$/;
 
-export let requireResolve = resolveCwd;
+/**
+ * The extensions of the files which are included in the project files by default
+ */
+export const DEFAULT_CONTENT = 'ts,tsx,html,css,json,xml,md';
+
+/**
+ * The configuration files which, when changed, require the whole project bundle to be created again
+ */
+const PROJECT_CONFIGS = ['package.json', 'tsconfig.json'];
 
 export type StringMap = { [pkg: string]: string };
 
+/**
+ * The options which control how a project bundle is created
+ */
+export interface ProjectOptions {
+	/**
+	 * The directory to cache the files which are read in, so that unchanged files are reused by the next export,
+	 * otherwise every file is read
+	 */
+	cacheDir?: string;
+
+	/**
+	 * The maximum number of files which are read at once, defaults to `DEFAULT_CONCURRENCY`
+	 */
+	concurrency?: number;
+
+	/**
+	 * A comma deliminated string of extensions of files to include in the project files
+	 */
+	content?: string;
+
+	/**
+	 * The filename of the main HTML document of the project, defaults to `./src/index.html`
+	 */
+	index?: string;
+
+	/**
+	 * Called with each warning, which is otherwise ignored, so that the warnings of the export are not logged
+	 */
+	onWarning?: (message: string) => void;
+
+	/**
+	 * Treat warnings as errors
+	 */
+	strict?: boolean;
+
+	/**
+	 * Transpile each TypeScript project file with the `compilerOptions` of the project, adding the JavaScript file and
+	 * source map of each to the project files
+	 */
+	transpile?: boolean;
+
+	/**
+	 * Only include the definition files which are reachable from the project files, instead of every definition file
+	 * in `node_modules/@dojo` and `node_modules/@types` and those of the production dependencies
+	 */
+	treeShake?: boolean;
+
+	/**
+	 * Log verbose output while creating the bundle
+	 */
+	verbose?: boolean;
+}
+
 /**
  * Helper function to create a new project file entry
  * @param name Name of the file
@@ -35,70 +123,12 @@ function createProjectFile(
 }
 
 /**
- * An async function which resolves with an array of files which match the supplied glob pattern.
- * @param pattern The matching pattern to glob
+ * Create the basic project bundle, reading in the `package.json`, `tsconfig.json` and, if present, the `tslint.json`
+ * and `.dojorc`, where the `tsconfig.json` and `tslint.json` are merged with any configurations they `extends`
+ * @param context The state of the export
+ * @param root The root directory of the project
  */
-async function getGlob(pattern: string) {
-	return new Promise<string[]>((resolve, reject) => {
-		glob(pattern, (err, matches) => {
-			if (err) {
-				reject(err);
-				return;
-			}
-			resolve(matches);
-		});
-	});
-}
-
-/**
- * An async function which loads a file and resolves to its string data
- * @param filename The filename to get
- */
-async function getFile(filename: string) {
-	return new Promise<string>((resolve, reject) => {
-		readFile(filename, 'utf8', (err, data) => {
-			if (err) {
-				reject(err);
-				return;
-			}
-			resolve(data.toString());
-		});
-	});
-}
-
-/**
- * An async function that resolves to `true` if the file exists and is readable, otherwise `false`
- * @param filename The filename to check existance of
- */
-async function exists(filename: string) {
-	return new Promise<boolean>((resolve) => {
-		access(filename, constants.R_OK, (err) => {
-			resolve(!err);
-		});
-	});
-}
-
-/**
- * An async function which writes out a file
- * @param filename The filename to write out
- * @param contents The contents of the file
- */
-async function setFile(filename: string, contents: string) {
-	return new Promise<string>((resolve, reject) => {
-		writeFile(filename, contents, { encoding: 'utf8' }, (err) => {
-			if (err) {
-				reject(err);
-				return;
-			}
-			resolve(filename);
-		});
-	});
-}
-
-/**
- * Create the basic project bundle, reading in the `package.json` and `tsconfig.json`
- */
-async function createProject() {
+async function createProject(context: ExportContext, root: string) {
 	const project: ProjectJson = {
 		dependencies: {
 			production: {},
@@ -111,17 +141,19 @@ async function createProject() {
 		tsconfig: {}
 	};
 
-	if (!((await exists('package.json')) && (await exists('tsconfig.json')))) {
-		throw new Error(`Path "${cwd()}" does not contain a "tsconfig.json" and "package.json".`);
+	if (!((await exists(join(root, 'package.json'))) && (await exists(join(root, 'tsconfig.json'))))) {
+		throw new MissingConfigError(resolve(root), ['tsconfig.json', 'package.json']);
 	}
 
-	verbose(indent(), bold.blue('reading'), ' "package.json"');
-	Object.assign(project.package, JSON.parse(await getFile('package.json')));
-	verbose(indent(), bold.blue('reading'), ' "tsconfig.json"');
-	Object.assign(project.tsconfig, JSON.parse(await getFile('tsconfig.json')));
-	if (await exists('.dojorc')) {
-		verbose(indent(), bold.blue('reading'), ' ".dojorc"');
-		project.dojorc = JSON.parse(await getFile('.dojorc'));
+	context.verbose(indent(), bold.blue('reading'), ' "package.json"');
+	Object.assign(project.package, JSON.parse(await getFile(join(root, 'package.json'), context)));
+	Object.assign(project.tsconfig, await readTsconfig(context, root, 'tsconfig.json'));
+	if (await exists(join(root, 'tslint.json'))) {
+		project.tslint = await readTslint(context, root, 'tslint.json');
+	}
+	if (await exists(join(root, '.dojorc'))) {
+		context.verbose(indent(), bold.blue('reading'), ' ".dojorc"');
+		project.dojorc = parseJsonc(await getFile(join(root, '.dojorc'), context), '.dojorc');
 	}
 
 	return project;
@@ -130,19 +162,21 @@ async function createProject() {
 /**
  * An async function which loads and adds TypeScript libraries files specified in the `tsconfig.json`
  * for the project.
+ * @param context The state of the export
+ * @param root The root directory of the project
  * @param project The reference to the project bundle
  */
-async function addLibFiles(project: ProjectJson) {
+async function addLibFiles(context: ExportContext, root: string, project: ProjectJson) {
 	if (project.tsconfig.compilerOptions && project.tsconfig.compilerOptions.lib) {
 		const tasks = project.tsconfig.compilerOptions.lib.map(async (lib) => {
 			const filename = `lib.${lib}.d.ts`;
 			const projectDescriptor = createProjectFile(
 				filename,
-				await getFile(join('node_modules', 'typescript', 'lib', filename)),
+				await getCachedFile(context, join(root, 'node_modules', 'typescript', 'lib', filename)),
 				ProjectFileType.Lib
 			);
 			project.environmentFiles.push(projectDescriptor);
-			verbose(indent(), bold.blue('adding'), ` lib "${lib}"`);
+			context.verbose(indent(), bold.blue('adding'), ` lib "${lib}"`);
 		});
 
 		return Promise.all(tasks);
@@ -178,140 +212,263 @@ function getProjectFileType(name: string): ProjectFileType {
 }
 
 /**
- * Recursively maps the dependencies of a collection of packages
- * @param packages a collection of packages (only the package name is used)
- * @param parsedPackages a set of packages that have already been parsed for export
- * @return a flattened map of production and peer dependencies
+ * Create a resolver which resolves packages from the `node_modules` of the project.  Each package is resolved from the
+ * directory of the package which depends on it, the same way `require` does, so nested installs are found.
+ * @param context The state of the export
+ * @param root The root directory of the project
  */
-async function getDependencies(packages: StringMap, parsedPackages: Set<string> = new Set()): Promise<StringMap> {
-	const dependencies: StringMap = {};
-
-	for (const packageName in packages) {
-		if (!parsedPackages.has(packageName)) {
-			parsedPackages.add(packageName);
-			verbose(indent(2), bold.blue('resolving'), ` dependencies for package "${packageName}"`);
-
-			let packageJson: PackageJson;
-
-			try {
-				const packageJsonFileName = requireResolve(join(packageName, 'package.json'));
-				packageJson = JSON.parse(await getFile(packageJsonFileName));
-			} catch (e) {
-				verbose(indent(2), bold.yellow('missing'), ` "${join(packageName, 'package.json')}"`);
-				continue;
-			}
+function getNodeModulesResolver(context: ExportContext, root: string): PackageResolver {
+	return async (name, range, parent) => {
+		try {
+			const packageJsonFileName = requireResolve(parent ? parent.location : root, join(name, 'package.json'));
+			const packageJson: PackageJson = JSON.parse(await getFile(packageJsonFileName, context));
+			return {
+				dependencies: { ...packageJson.peerDependencies, ...packageJson.dependencies },
+				location: dirname(packageJsonFileName),
+				version: packageJson.version
+			};
+		} catch (e) {
+			return undefined;
+		}
+	};
+}
 
-			Object.assign(dependencies, packageJson.peerDependencies);
-			Object.assign(dependencies, packageJson.dependencies);
-			if (packageJson.dependencies && Object.keys(packageJson.dependencies).length) {
-				verbose(
-					indent(3),
-					bold.blue('depends'),
-					` on packages "${Object.keys(packageJson.dependencies).join('", "')}"`
-				);
-			}
-			if (packageJson.peerDependencies && Object.keys(packageJson.peerDependencies).length) {
-				verbose(
-					indent(3),
-					bold.blue('depends'),
-					` on peer packages "${Object.keys(packageJson.peerDependencies).join('", "')}"`
-				);
-			}
-		} else {
-			verbose(indent(2), bold.blue('skipping'), ` dependencies for package "${packageName}", already seen`);
+/**
+ * Resolves the packages installed for a collection of dependencies and, breadth first, for their production and peer
+ * dependencies.  A package which is depended on several times is only resolved the first time.
+ * @param context The state of the export
+ * @param packages a collection of packages, where the package name is the key and the value is the semver range
+ * @param resolvePackage Resolves the package installed for a dependency, from a lockfile or `node_modules`
+ * @return the resolved dependencies, nearest to the project first
+ */
+async function getDependencies(
+	context: ExportContext,
+	packages: StringMap,
+	resolvePackage: PackageResolver
+): Promise<ResolvedDependency[]> {
+	const queue = Object.keys(packages).map((name) => ({
+		name,
+		range: packages[name],
+		parent: <InstalledPackage | undefined>undefined,
+		path: <string[]>[]
+	}));
+	const parsedPackages = new Set<string>();
+	const dependencies: ResolvedDependency[] = [];
+
+	while (queue.length) {
+		const { name: packageName, range, parent, path } = queue.shift()!;
+		context.verbose(indent(2), bold.blue('resolving'), ` dependencies for package "${packageName}"`);
+
+		const installed = await resolvePackage(packageName, range, parent);
+		if (!installed) {
+			context.verbose(indent(2), bold.yellow('missing'), ` "${join(packageName, 'package.json')}"`);
+			dependencies.push({ name: packageName, range, path });
+			continue;
 		}
-	}
+		if (parsedPackages.has(installed.location)) {
+			context.verbose(
+				indent(2),
+				bold.blue('skipping'),
+				` dependencies for package "${packageName}", already seen`
+			);
+			continue;
+		}
+		parsedPackages.add(installed.location);
+
+		const { integrity, resolved, version } = installed;
+		dependencies.push({ name: packageName, range, version, integrity, resolved, path });
 
-	if (Object.keys(dependencies).length) {
-		Object.assign(dependencies, await getDependencies(dependencies, parsedPackages));
+		const packageDependencies = Object.keys(installed.dependencies);
+		packageDependencies.forEach((name) => {
+			queue.push({ name, range: installed.dependencies[name], parent: installed, path: [...path, packageName] });
+		});
+		if (packageDependencies.length) {
+			context.verbose(indent(3), bold.blue('depends'), ` on packages "${packageDependencies.join('", "')}"`);
+		}
 	}
 
 	return dependencies;
 }
 
 /**
- * Populates the `project.dependencies` with the recursively resolved dependencies for the package
+ * Warn about packages which are installed more than once with different versions
+ * @param context The state of the export
+ * @param dependencies The resolved dependencies
+ */
+function reportConflicts(context: ExportContext, dependencies: ResolvedDependency[]) {
+	const versions: { [pkg: string]: ResolvedDependency[] } = {};
+	dependencies.filter(({ version }) => version !== undefined).forEach((dependency) => {
+		versions[dependency.name] = [...(versions[dependency.name] || []), dependency];
+	});
+
+	Object.keys(versions)
+		.filter((name) => versions[name].some(({ version }) => version !== versions[name][0].version))
+		.forEach((name) => {
+			const installs = versions[name].map(
+				({ path, version }) => `"${version}" required by "${path.length ? path.join(' > ') : 'the project'}"`
+			);
+			context.warn(`conflicting versions of package "${name}" are installed: ${installs.join(', ')}`);
+		});
+}
+
+/**
+ * Add the semver ranges of resolved dependencies to a map of dependencies, keeping the range nearest to the project
+ * when a package is required more than once, and warn about packages installed with conflicting versions
+ * @param context The state of the export
+ * @param packages The map of dependencies, where the package name is the key and the value is the semver range
+ * @param dependencies The resolved dependencies
+ */
+function addTransitiveDependencies(context: ExportContext, packages: StringMap, dependencies: ResolvedDependency[]) {
+	dependencies.forEach(({ name, range }) => {
+		if (!(name in packages)) {
+			packages[name] = range;
+		}
+	});
+	reportConflicts(context, dependencies);
+}
+
+/**
+ * Populates the `project.dependencies` with the recursively resolved dependencies for the package, and the versions
+ * of the packages which are installed for them.  The packages are resolved from the lockfile of the project if it has
+ * one, otherwise from its `node_modules`.
+ * @param context The state of the export
+ * @param root The root directory of the project
  * @param project The project bundle to populate
  */
-async function addDependencies(project: ProjectJson) {
-	const packageSet = new Set();
-
-	verbose(indent(), bold.blue('resolving'), ` production dependecies:`);
-	Object.assign(project.dependencies.production, project.package.peerDependencies);
-	Object.assign(project.dependencies.production, project.package.dependencies);
-	Object.assign(project.dependencies.production, await getDependencies(project.dependencies.production, packageSet));
-
-	verbose(indent(), bold.blue('resolving'), ` development dependecies:`);
-	packageSet.clear();
-	Object.assign(project.dependencies.development, project.package.devDependencies);
-	Object.assign(
-		project.dependencies.development,
-		await getDependencies(project.dependencies.development, packageSet)
-	);
+async function addDependencies(context: ExportContext, root: string, project: ProjectJson) {
+	const { development, production } = project.dependencies;
+	const resolvePackage = (await readLockfile(context, root)) || getNodeModulesResolver(context, root);
+
+	context.verbose(indent(), bold.blue('resolving'), ` production dependecies:`);
+	Object.assign(production, project.package.peerDependencies);
+	Object.assign(production, project.package.dependencies);
+	const resolvedProduction = await getDependencies(context, production, resolvePackage);
+	addTransitiveDependencies(context, production, resolvedProduction);
+
+	context.verbose(indent(), bold.blue('resolving'), ` development dependecies:`);
+	Object.assign(development, project.package.devDependencies);
+	const resolvedDevelopment = await getDependencies(context, development, resolvePackage);
+	addTransitiveDependencies(context, development, resolvedDevelopment);
+
+	project.dependencies.resolved = { production: resolvedProduction, development: resolvedDevelopment };
 }
 
 /**
- * An async function which loads any of the `include` files that are specified in the `tsconfig.json` plus
- * other related static content files.
+ * An async function which loads the files that are included by the `tsconfig.json` plus other related static content
+ * files.
+ * @param context The state of the export
+ * @param root The root directory of the project
  * @param project The reference to the project bundle
  * @param includeExtensions A comma deliminated string of extensions to be included in the project files
  */
-async function addProjectFiles(project: ProjectJson, includeExtensions: string = 'ts,tsx,html,css,json,xml,md') {
-	if (project.tsconfig.include) {
-		const globs = await Promise.all(
-			project.tsconfig.include.map((pattern) =>
-				getGlob(pattern.replace(/(\.d)?\.ts$/, `.{${includeExtensions}}`))
-			)
-		);
-		const files = (<string[]>[]).concat(...globs);
-		const tasks = files.map(async (name) => {
-			const text = await getFile(name);
-			verbose(indent(), bold.blue('adding'), ` project file "${name}"`);
-			project.files.push({
-				name,
-				text,
-				type: getProjectFileType(name)
-			});
+async function addProjectFiles(
+	context: ExportContext,
+	root: string,
+	project: ProjectJson,
+	includeExtensions: string = DEFAULT_CONTENT
+) {
+	const files = await getIncludedFiles(root, project.tsconfig, includeExtensions);
+	const tasks = files.map(async (name) => {
+		const text = await getCachedFile(context, join(root, name));
+		context.verbose(indent(), bold.blue('adding'), ` project file "${name}"`);
+		project.files.push({
+			name,
+			text,
+			type: getProjectFileType(name)
 		});
-		return Promise.all(tasks);
+	});
+	return Promise.all(tasks);
+}
+
+/**
+ * Add a file to the environment files of a project, unless a file with the same name has already been added
+ * @param project The reference to the project bundle
+ * @param file The file to add
+ * @return `true` if the file was added
+ */
+function addEnvironmentFile(project: ProjectJson, file: ProjectFile) {
+	if (project.environmentFiles.some(({ name }) => name === file.name)) {
+		return false;
 	}
-	return Promise.all([]);
+	project.environmentFiles.push(file);
+	return true;
 }
 
 /**
- * An async function which loads any of the `compilerOptions.types` that are specified in the `tsconfig.json`
+ * An async function which resolves the declaration file of a package, from the `typings` or `types` of its
+ * `package.json` or its `index.d.ts`, and adds it and the `package.json` to the environment files
+ * @param context The state of the export
+ * @param root The root directory of the project
  * @param project The reference to the project bundle
+ * @param packageName The name of the package
+ * @param required The package was explicitly listed, so warn when it does not contain type information, and add its
+ * `package.json` even if no declaration file is found
  */
-async function addTypesFiles(project: ProjectJson) {
-	if (project.tsconfig.compilerOptions && project.tsconfig.compilerOptions.types) {
-		const tasks = project.tsconfig.compilerOptions.types.map(async (packageName) => {
-			verbose(indent(), bold.blue('resolving'), ` types for package "${packageName}"`);
+async function addPackageTypesFiles(
+	context: ExportContext,
+	root: string,
+	project: ProjectJson,
+	packageName: string,
+	required: boolean
+) {
+	let packageJsonFilename: string;
+	try {
+		packageJsonFilename = relative(root, requireResolve(root, join(packageName, 'package.json')));
+	} catch (e) {
+		throw new UnresolvablePackageError(packageName);
+	}
+	const packageJson: PackageJson = JSON.parse(await getFile(join(root, packageJsonFilename), context));
+
+	let filename: string | undefined;
+	const typings = packageJson.typings || packageJson.types;
+	if (typings) {
+		try {
+			filename = relative(root, requireResolve(root, normalize(join(packageName, typings))));
+		} catch (e) {
+			throw new UnresolvablePackageError(
+				packageName,
+				`Unable to resolve the typings "${typings}" of package "${packageName}".`
+			);
+		}
+	} else {
+		if (required) {
+			context.warn(`"${packageJsonFilename}" does not contain type information`);
+		}
 
-			const packageJsonFilename = relative(cwd(), requireResolve(join(packageName, 'package.json')));
-			const packageJson: PackageJson = JSON.parse(await getFile(packageJsonFilename));
+		try {
+			/* try to find an index.d.ts file, since none specified in package.json */
+			filename = relative(root, requireResolve(root, normalize(join(packageName, 'index.d.ts'))));
+		} catch (e) {
+			/* swallow error */
+		}
+	}
+	if (!filename && !required) {
+		return;
+	}
 
-			project.environmentFiles.push(
-				createProjectFile(packageJsonFilename, JSON.stringify(packageJson), ProjectFileType.JSON)
-			);
+	addEnvironmentFile(
+		project,
+		createProjectFile(packageJsonFilename, JSON.stringify(packageJson), ProjectFileType.JSON)
+	);
+	if (
+		filename &&
+		addEnvironmentFile(project, createProjectFile(filename, await getCachedFile(context, join(root, filename))))
+	) {
+		context.verbose(indent(), bold.blue('adding'), ` type file "${filename}"`);
+	}
+}
 
-			const typings = packageJson.typings || packageJson.types;
-			if (typings) {
-				const filename = relative(cwd(), requireResolve(normalize(join(packageName, typings))));
-
-				project.environmentFiles.push(createProjectFile(filename, await getFile(filename)));
-				verbose(indent(), bold.blue('adding'), ` type file "${filename}"`);
-			} else {
-				log(indent(), bold.yellow('warn'), ` "${packageJsonFilename}" does not contain type information`);
-
-				try {
-					/* try to find an index.d.ts file, since none specified in package.json */
-					const filename = relative(cwd(), requireResolve(normalize(join(packageName, 'index.d.ts'))));
-					project.environmentFiles.push(createProjectFile(filename, await getFile(filename)));
-					verbose(indent(), bold.blue('adding'), ` type file "${filename}"`);
-				} catch (e) {
-					/* swallow error */
-				}
-			}
+/**
+ * An async function which loads any of the `compilerOptions.types` that are specified in the `tsconfig.json`
+ * @param context The state of the export
+ * @param root The root directory of the project
+ * @param project The reference to the project bundle
+ */
+async function addTypesFiles(context: ExportContext, root: string, project: ProjectJson) {
+	if (project.tsconfig.compilerOptions && project.tsconfig.compilerOptions.types) {
+		const tasks = project.tsconfig.compilerOptions.types.map(async (packageName) => {
+			context.verbose(indent(), bold.blue('resolving'), ` types for package "${packageName}"`);
+			await addPackageTypesFiles(context, root, project, packageName, true);
 		});
 
 		return Promise.all(tasks);
@@ -319,76 +476,486 @@ async function addTypesFiles(project: ProjectJson) {
 	return Promise.all([]);
 }
 
+/**
+ * An async function which loads the declaration files of the production dependencies of the project, including
+ * packages which ship their own typings rather than having them in `node_modules/@types`.  Dependencies which cannot
+ * be resolved or do not contain type information are skipped.
+ * @param context The state of the export
+ * @param root The root directory of the project
+ * @param project The reference to the project bundle, where the dependencies have already been resolved
+ */
+async function addDependencyTypesFiles(context: ExportContext, root: string, project: ProjectJson) {
+	const tasks = Object.keys(project.dependencies.production).map(async (packageName) => {
+		try {
+			await addPackageTypesFiles(context, root, project, packageName, false);
+		} catch (e) {
+			context.verbose(indent(2), bold.yellow('missing'), ` types for package "${packageName}"`);
+		}
+	});
+
+	return Promise.all(tasks);
+}
+
 /**
  * An async function which will glob any definitions that are included in `node_modules/@dojo` or `node_modules/@types`
+ * @param context The state of the export
+ * @param root The root directory of the project
  * @param project The reference to the project bundle
  */
-async function addDefinitionFiles(project: ProjectJson) {
-	const files = await getGlob('node_modules/{@dojo,@types}/**/*.d.ts');
+async function addDefinitionFiles(context: ExportContext, root: string, project: ProjectJson) {
+	const files = await getGlob('node_modules/{@dojo,@types}/**/*.d.ts', [], root);
 	const tasks = files.map(async (filename) => {
 		if (DOJO_EXCLUDE.test(filename)) {
 			return;
 		}
 
-		project.environmentFiles.push(createProjectFile(filename, await getFile(filename)));
-		verbose(indent(), bold.blue('adding'), ` definition file "${filename}"`);
+		project.environmentFiles.push(createProjectFile(filename, await getCachedFile(context, join(root, filename))));
+		context.verbose(indent(), bold.blue('adding'), ` definition file "${filename}"`);
 	});
 
 	return Promise.all(tasks);
 }
 
 /**
- * Set the project index.html filename
+ * An async function which adds the definition and lib files that are reachable, by imports and triple-slash
+ * references, from the project files and the environment files which have already been added
+ * @param context The state of the export
+ * @param root The root directory of the project
+ * @param project The reference to the project bundle
+ * @param treeShake Only the reachable files are being included, so do not exclude any of them
+ * @param changedFiles Only walk the references of these files, because the references of the others have been walked
+ */
+async function addReachableDefinitionFiles(
+	context: ExportContext,
+	root: string,
+	project: ProjectJson,
+	treeShake: boolean,
+	changedFiles?: ProjectFile[]
+) {
+	context.verbose(indent(), bold.blue('resolving'), ' definition files referenced by the project:');
+	const bundleFiles = [...project.files, ...project.environmentFiles];
+	const files = changedFiles
+		? await getReachableFiles(context, root, changedFiles, bundleFiles)
+		: await getReachableFiles(context, root, bundleFiles);
+	files.filter(({ name }) => treeShake || !DOJO_EXCLUDE.test(name)).forEach((file) => {
+		project.environmentFiles.push(file);
+		context.verbose(
+			indent(2),
+			bold.blue('adding'),
+			` ${file.type === ProjectFileType.Lib ? 'lib' : 'definition'} file "${file.name}"`
+		);
+	});
+}
+
+/**
+ * Transpile the TypeScript project files with the TypeScript compiler of the project, adding the JavaScript file and
+ * source map of each to the project files.  Syntax errors in the sources are warnings.
+ * @param context The state of the export
+ * @param root The root directory of the project
+ * @param project The reference to the project bundle
+ * @param previous The transpiled files of the bundle which is being updated, by name, which are reused for the sources
+ * which did not change
+ * @param changedFiles The project files which changed since the bundle which is being updated
+ */
+function addTranspiledFiles(
+	context: ExportContext,
+	root: string,
+	project: ProjectJson,
+	previous = new Map<string, ProjectFile>(),
+	changedFiles: ProjectFile[] = []
+) {
+	const ts = requireTypeScript(root);
+	const options = getTranspileOptions(ts, project.tsconfig.compilerOptions);
+	const transpiled: ProjectFile[] = [];
+	project.files.filter(isTranspilable).forEach((file) => {
+		const outputs = getTranspiledNames(ts, file.name, options).map((name) => previous.get(normalize(name)));
+		if (changedFiles.indexOf(file) === -1 && outputs.every(Boolean)) {
+			transpiled.push(...(<ProjectFile[]>outputs));
+			return;
+		}
+		context.verbose(indent(), bold.blue('transpiling'), ` project file "${file.name}"`);
+		const { diagnostics, files } = transpileFile(ts, file, options);
+		diagnostics.forEach((diagnostic) => context.warn(diagnostic));
+		transpiled.push(...files);
+	});
+
+	const names = new Set(transpiled.map(({ name }) => normalize(name)));
+	project.files = project.files.filter(({ name }) => {
+		if (names.has(normalize(name))) {
+			context.warn(`"${name}" is replaced by the transpiled output of its TypeScript source`);
+			return false;
+		}
+		return true;
+	});
+	project.files.push(...transpiled);
+}
+
+/**
+ * Sort the files of a project bundle by name and its dependencies by package name, so that the same project always
+ * results in the same bundle, regardless of the order its files were read in
+ * @param project The reference to the project bundle
+ */
+function sortProject(project: ProjectJson) {
+	project.files.sort(compareFiles);
+	project.environmentFiles.sort(compareFiles);
+	const { development, production } = project.dependencies;
+	project.dependencies = {
+		...project.dependencies,
+		development: sortKeys(development),
+		production: sortKeys(production)
+	};
+}
+
+/**
+ * Set the project index.html filename to the name of the project file it refers to, regardless of a leading `./`,
+ * throwing a `MissingIndexError` if it is not one of the project files
  * @param project The project that is the target
  * @param index Supply an alternative index.html
  */
 function setProjectIndex(project: ProjectJson, index = './src/index.html') {
-	if (!project.files.find(({ name }) => name === index)) {
-		log(indent(), bold.red('error'), ` unable to find index "${index}" in project.`);
-	} else {
-		project.index = index;
+	const file = project.files.find(({ name }) => normalize(name) === normalize(index));
+	if (!file) {
+		throw new MissingIndexError(index);
 	}
+	project.index = file.name;
 }
 
 /**
- * An async function which resolves when a project bundle has been output for the specified path
+ * An async function which resolves to the project bundle of the project in the supplied root directory.  The bundle
+ * is created in memory, without changing the current working directory or writing any files.  If the bundle cannot
+ * be created, it rejects with a `ProjectError`.
+ * @param root The root directory of the project
+ * @param options Options which control how the bundle is created
  */
-export default async function exportProject({ content, index, out, project: root, verbose: verboseFlag }: ExportArgs) {
-	setVerbose(verboseFlag);
-
-	log(underline('\nExport project bundle'));
+export async function createProjectJson(
+	root: string,
+	{
+		cacheDir,
+		concurrency,
+		content,
+		index,
+		onWarning,
+		strict,
+		transpile = false,
+		treeShake = false,
+		verbose
+	}: ProjectOptions = {}
+): Promise<ProjectJson> {
+	const context = createContext({ concurrency, onWarning, strict, verbose });
 
 	try {
-		const initialCwd = cwd();
-		chdir(root);
-		if (cwd() !== initialCwd) {
-			verbose(indent(), bold.blue('changing'), ` working directory to "${root}"`);
+		if (cacheDir) {
+			await openCache(context, cacheDir, root);
 		}
-
-		const project = await createProject();
+		const project = await createProject(context, root);
 		const tasks: Promise<any>[] = [];
 
-		tasks.push(addLibFiles(project));
-		tasks.push(addTypesFiles(project));
-		tasks.push(addDefinitionFiles(project));
+		tasks.push(addLibFiles(context, root, project));
+		tasks.push(addTypesFiles(context, root, project));
+		if (!treeShake) {
+			tasks.push(addDefinitionFiles(context, root, project));
+		}
 		if (content) {
-			verbose(indent(), bold.blue('setting'), ` project file extensions to "${content}"`);
+			context.verbose(indent(), bold.blue('setting'), ` project file extensions to "${content}"`);
 		}
-		tasks.push(addProjectFiles(project, content));
-		tasks.push(addDependencies(project));
+		tasks.push(addProjectFiles(context, root, project, content));
+		tasks.push(addDependencies(context, root, project));
 		await Promise.all(tasks);
+		if (!treeShake) {
+			await addDependencyTypesFiles(context, root, project);
+		}
+		await addReachableDefinitionFiles(context, root, project, treeShake);
+		if (transpile) {
+			addTranspiledFiles(context, root, project);
+		}
 
+		sortProject(project);
 		setProjectIndex(project, index);
+		await closeCache(context);
+
+		return project;
+	} catch (e) {
+		await closeCache(context, false);
+		context.verbose(indent(), bold.red('errored'), ' ', e.stack, '\n');
+		throw e instanceof ProjectError ? e : new ProjectError(e.message);
+	}
+}
 
-		/* write out project bundle file */
-		const outfilename = `${(project.package.name || 'bundle').replace(/[\/\\]/, '-')}.project.json`;
-		const outfile = relative(cwd(), normalize(join(initialCwd, out, outfilename)));
+/**
+ * An async function which resolves to a project bundle which is updated after some of the files of the project were
+ * added, changed or removed.  Only the changed project files are read, and only the definition files which become
+ * reachable from them are added, unless the `package.json` or `tsconfig.json` changed, in which case the bundle is
+ * created again.  If the bundle cannot be updated, it rejects with a `ProjectError`.
+ * @param root The root directory of the project
+ * @param project The project bundle to update, which is not modified
+ * @param changed The filenames of the files which changed, relative to the project root
+ * @param options The options which the bundle was created with
+ */
+export async function updateProjectJson(
+	root: string,
+	project: ProjectJson,
+	changed: string[],
+	options: ProjectOptions = {}
+): Promise<ProjectJson> {
+	const {
+		concurrency,
+		content = DEFAULT_CONTENT,
+		index,
+		onWarning,
+		strict,
+		transpile = false,
+		treeShake = false,
+		verbose
+	} = options;
+	const changedNames = changed.map((name) => normalize(name));
+	if (changedNames.some((name) => PROJECT_CONFIGS.indexOf(name) !== -1)) {
+		return createProjectJson(root, options);
+	}
+
+	const context = createContext({ concurrency, onWarning, strict, verbose });
 
-		await setFile(outfile, JSON.stringify(project));
-		log(indent(), bold.green('exported'), ` to "${relative(initialCwd, outfile)}"\n`);
+	try {
+		const updated: ProjectJson = { ...project, environmentFiles: [...project.environmentFiles] };
+		if (changedNames.indexOf('.dojorc') !== -1) {
+			delete updated.dojorc;
+			if (await exists(join(root, '.dojorc'))) {
+				context.verbose(indent(), bold.blue('reading'), ' ".dojorc"');
+				updated.dojorc = parseJsonc(await getFile(join(root, '.dojorc'), context), '.dojorc');
+			}
+		}
+
+		const included = await getIncludedFiles(root, project.tsconfig, content);
+		const existing = new Map(
+			project.files
+				.filter((file) => !isTranspiledFile(file))
+				.map((file): [string, ProjectFile] => [normalize(file.name), file])
+		);
+		const changedFiles: ProjectFile[] = [];
+		updated.files = await Promise.all(
+			included.map(async (name) => {
+				const file = existing.get(normalize(name));
+				existing.delete(normalize(name));
+				if (file && changedNames.indexOf(normalize(name)) === -1) {
+					return file;
+				}
+				context.verbose(indent(), bold.blue(file ? 'updating' : 'adding'), ` project file "${name}"`);
+				const changedFile = createProjectFile(
+					name,
+					await getFile(join(root, name), context),
+					getProjectFileType(name)
+				);
+				changedFiles.push(changedFile);
+				return changedFile;
+			})
+		);
+		existing.forEach(({ name }) => {
+			context.verbose(indent(), bold.blue('removing'), ` project file "${name}"`);
+		});
+
+		await addReachableDefinitionFiles(context, root, updated, treeShake, changedFiles);
+		if (transpile) {
+			const previous = new Map(
+				project.files
+					.filter(isTranspiledFile)
+					.map((file): [string, ProjectFile] => [normalize(file.name), file])
+			);
+			addTranspiledFiles(context, root, updated, previous, changedFiles);
+		}
+		sortProject(updated);
+		setProjectIndex(updated, index);
+
+		return updated;
+	} catch (e) {
+		context.verbose(indent(), bold.red('errored'), ' ', e.stack, '\n');
+		throw e instanceof ProjectError ? e : new ProjectError(e.message);
+	}
+}
+
+/**
+ * An async function which writes a bundle out to a file, rejecting with a `ProjectError` if it cannot be written
+ * @param filename The filename to write the bundle to
+ * @param bundle The project or environment bundle
+ * @param format The format to write the bundle in
+ * @param layout The layout of the JSON of the bundle
+ */
+async function writeBundleFile(
+	filename: string,
+	bundle: ProjectJson | EnvironmentJson,
+	format: BundleFormat,
+	layout: BundleLayout
+) {
+	try {
+		await writeBundle(createWriteStream(filename), bundle, format, true, layout);
 	} catch (e) {
-		const stack: string[] = e.stack.split('\n');
-		log(indent(), bold.red('errored'), ' ', stack.shift());
-		log(stack.join('\n'), '\n');
+		throw new ProjectError(`Unable to write "${filename}": ${e.message}`);
+	}
+}
+
+/**
+ * The options which control how a project bundle is output
+ */
+interface OutputOptions {
+	/**
+	 * The filename template of the project bundle
+	 */
+	filename?: string;
+
+	/**
+	 * The format to write the bundle in
+	 */
+	format: BundleFormat;
+
+	/**
+	 * The layout of the JSON of the bundle
+	 */
+	layout: BundleLayout;
+
+	/**
+	 * Split the environment files out into a separate environment bundle
+	 */
+	split?: boolean;
+
+	/**
+	 * Record when the bundle was exported in its header
+	 */
+	timestamp?: boolean;
+}
+
+/**
+ * An async function which writes a project bundle out to a directory, first splitting out and writing its environment
+ * bundle if requested.  The files are given their content hashes, and the project bundle its header.
+ * @param root The root directory of the project
+ * @param project The project bundle
+ * @param out The directory to write the bundle to
+ * @param options The options which control how the bundle is output
+ */
+async function writeProjectFiles(
+	root: string,
+	project: ProjectJson,
+	out: string,
+	{ filename, format, layout, split, timestamp }: OutputOptions
+) {
+	project = addFileHashes(project);
+
+	/* write out the shared environment bundle, unless a project with the same environment already has */
+	if (split) {
+		const { environment, hash, project: splitProject } = splitEnvironment(project);
+		const environmentFile = join(out, getBundleFilename(hash, format, 'environment'));
+		if (await exists(environmentFile)) {
+			verbose(indent(), bold.blue('skipping'), ` environment "${environmentFile}", already exported`);
+		} else {
+			await writeBundleFile(environmentFile, environment, format, layout);
+			log(indent(), bold.green('exported'), ` environment to "${environmentFile}"`);
+		}
+		project = splitProject;
+	}
+
+	/* write out project bundle file */
+	project = await addHeader(root, project, timestamp);
+	const outfile = join(out, getProjectFilename(project, format, filename));
+
+	await writeBundleFile(outfile, project, format, layout);
+	log(indent(), bold.green('exported'), ` to "${outfile}"\n`);
+}
+
+/**
+ * An async function which resolves when a project bundle has been output for the specified path, or written to stdout
+ * or a writable stream.  In watch mode, the bundle is updated and output again whenever the project changes.  When
+ * requested, each bundle which is output is then type checked in isolation.  If the export fails, it rejects with a
+ * `ProjectError`.
+ */
+export default async function exportProject({
+	cache,
+	cacheDir,
+	concurrency,
+	content,
+	expanded,
+	filename,
+	format = 'json',
+	index,
+	out,
+	pretty,
+	project: root,
+	splitEnvironment: split,
+	strict,
+	timestamp,
+	transpile,
+	treeShake,
+	verbose: verboseFlag,
+	verify,
+	watch
+}: ExportArgs) {
+	const stream = out === '-' ? stdout : typeof out === 'string' ? undefined : out;
+	const options: ProjectOptions = {
+		cacheDir: cache ? cacheDir || join(root, DEFAULT_CACHE_DIR) : undefined,
+		concurrency,
+		content,
+		index,
+		onWarning: warn,
+		strict,
+		transpile,
+		treeShake,
+		verbose: verboseFlag
+	};
+	const layout: BundleLayout = expanded ? 'expanded' : pretty ? 'pretty' : 'compact';
+	const outputOptions: OutputOptions = { filename, format, layout, split, timestamp };
+	setVerbose(verboseFlag);
+	setStrict(strict);
+	setStderr(stream === stdout);
+
+	log(underline('\nExport project bundle'));
+
+	if (stream && (split || watch)) {
+		throw new ProjectError(
+			`${
+				split ? 'The environment can only be split' : 'Watch mode can only be used'
+			} when exporting to a directory.`
+		);
+	}
+
+	let project = await createProjectJson(root, options);
+
+	/* stream out the project bundle */
+	if (stream) {
+		try {
+			const bundle = await addHeader(root, addFileHashes(project), timestamp);
+			await writeBundle(stream, bundle, format, stream !== stdout, layout);
+		} catch (e) {
+			throw new ProjectError(`Unable to write bundle: ${e.message}`);
+		}
+		log(indent(), bold.green('exported'), ` to ${stream === stdout ? 'stdout' : 'stream'}\n`);
+		if (verify) {
+			await verifyProject(root, project);
+		}
+		return;
+	}
+
+	/* while watching, a bundle which does not type check is reported without ending the watch */
+	const verifyBundle = async (bundle: ProjectJson) => {
+		try {
+			await verifyProject(root, bundle);
+		} catch (e) {
+			if (!watch) {
+				throw e;
+			}
+			log(indent(), bold.red('errored'), ' ', e.message, '\n');
+		}
+	};
+
+	await writeProjectFiles(root, project, <string>out, outputOptions);
+	if (verify) {
+		await verifyBundle(project);
+	}
+
+	if (watch) {
+		log(indent(), bold.blue('watching'), ` "${root}" for changes`);
+		watchProject(root, project, content || DEFAULT_CONTENT, async (changed) => {
+			project = await updateProjectJson(root, project, changed, options);
+			await writeProjectFiles(root, project, <string>out, outputOptions);
+			if (verify) {
+				await verifyBundle(project);
+			}
+			return project;
+		});
 	}
 }
@@ -0,0 +1,466 @@
+import { createHash } from 'crypto';
+import { posix } from 'path';
+import { Readable, Writable } from 'stream';
+import { createGzip, gunzip } from 'zlib';
+import * as JSZip from 'jszip';
+
+import { ProjectError } from './errors';
+import { EnvironmentJson, ProjectFile, ProjectFileType, ProjectJson } from './interfaces/project.json';
+import { warn } from './log';
+import { getFileBuffer } from './util';
+
+/**
+ * The formats a bundle can be output in
+ */
+export type BundleFormat = 'json' | 'json.gz' | 'zip';
+
+/**
+ * The kinds of bundle which are output, a project bundle or an environment bundle which was split from it
+ */
+export type BundleType = 'environment' | 'project';
+
+/**
+ * The layouts the JSON of a bundle can be written in: on one line, indented with tabs, or indented with the text of
+ * each file as an array of its lines, so that changes to the files can be reviewed and merged line by line
+ */
+export type BundleLayout = 'compact' | 'pretty' | 'expanded';
+
+/**
+ * An entry of the manifest of a zip archive, which locates a file of the project bundle in the archive
+ */
+export interface ManifestFile {
+	/**
+	 * The content hash of the file
+	 */
+	hash?: string;
+
+	/**
+	 * The name of the file in the project bundle
+	 */
+	name: string;
+
+	/**
+	 * The path of the file in the archive
+	 */
+	path: string;
+
+	/**
+	 * The type of the file
+	 */
+	type: ProjectFileType;
+}
+
+/**
+ * The manifest of a zip archive of an environment bundle
+ */
+export interface EnvironmentManifest {
+	environmentFiles: ManifestFile[];
+}
+
+/**
+ * The manifest of a zip archive, which is the project bundle with the text of each file replaced by its path in the
+ * archive
+ */
+export interface ProjectManifest {
+	dependencies: ProjectJson['dependencies'];
+	dojorc?: ProjectJson['dojorc'];
+	environment?: string;
+	environmentFiles: ManifestFile[];
+	files: ManifestFile[];
+	header?: ProjectJson['header'];
+	index: string;
+	package: ProjectJson['package'];
+	tsconfig: ProjectJson['tsconfig'];
+	tslint?: ProjectJson['tslint'];
+}
+
+/**
+ * The supported formats, and the extension of the file each format is written to
+ */
+export const FORMATS: { [format: string]: string } = {
+	json: '.json',
+	'json.gz': '.json.gz',
+	zip: '.zip'
+};
+
+/**
+ * The name of the manifest in a zip archive
+ */
+export const MANIFEST = 'manifest.json';
+
+/**
+ * The options of every file in a zip archive, which has a fixed modification date and no directory entries, so that
+ * archives of the same bundle are identical
+ */
+const ZIP_FILE_OPTIONS = { createFolders: false, date: new Date(Date.UTC(1980, 0, 1)) };
+
+/**
+ * Compare two project files by name, and then by type, for sorting
+ * @param a The first file
+ * @param b The second file
+ */
+export function compareFiles(a: ProjectFile, b: ProjectFile) {
+	return a.name < b.name ? -1 : a.name > b.name ? 1 : a.type - b.type;
+}
+
+/**
+ * Return a copy of an object with its keys in sorted order
+ * @param object The object to sort
+ */
+export function sortKeys<T extends object>(object: T): T {
+	const sorted: any = {};
+	Object.keys(object)
+		.sort()
+		.forEach((key) => {
+			sorted[key] = (<any>object)[key];
+		});
+	return sorted;
+}
+
+/**
+ * Serialize a value to JSON with the keys of every object in sorted order, so that the same value is always
+ * serialized to the same text, regardless of the order its keys were added in
+ * @param value The value to serialize
+ * @param indent The indentation of each level of the JSON, which is on one line by default
+ */
+export function stringifyJson(value: any, indent?: string) {
+	return JSON.stringify(
+		value,
+		(key, item) => (item && typeof item === 'object' && !Array.isArray(item) ? sortKeys(item) : item),
+		indent
+	);
+}
+
+/**
+ * Return the format of a bundle from the extension of its filename, which is JSON unless it is a gzipped JSON file or
+ * a zip archive
+ * @param filename The filename of the bundle
+ */
+export function getBundleFormat(filename: string): BundleFormat {
+	return /\.zip$/i.test(filename) ? 'zip' : /\.gz$/i.test(filename) ? 'json.gz' : 'json';
+}
+
+/**
+ * Return the filename a bundle is written to in a format
+ * @param name The name of the bundle
+ * @param format The format of the bundle
+ * @param type The kind of bundle
+ */
+export function getBundleFilename(name: string, format: BundleFormat, type: BundleType = 'project') {
+	return `${name}.${type}${FORMATS[format]}`;
+}
+
+/**
+ * The configurations embedded in a project bundle, which keep the order their keys were authored in, because the order
+ * can be significant, such as for the conditions of the `exports` of a `package.json`
+ */
+const AUTHORED_KEYS = ['dojorc', 'package', 'tsconfig', 'tslint'];
+
+/**
+ * Serialize a value to JSON, nested in a bundle at a level of indentation
+ * @param value The value to serialize
+ * @param indent The indentation of each level of the JSON, which is empty for a compact bundle
+ * @param level The level of the value in the bundle
+ * @param sorted Sort the keys of every object, as `stringifyJson` does, instead of keeping their order
+ */
+function stringifyNested(value: any, indent: string, level: number, sorted = true) {
+	const json = sorted
+		? stringifyJson(value, indent || undefined)
+		: JSON.stringify(value, undefined, indent || undefined);
+	return indent ? json.replace(/\n/g, `\n${indent.repeat(level)}`) : json;
+}
+
+/**
+ * Serialize a bundle to JSON incrementally, in chunks of no more than one file at a time, so that the whole bundle is
+ * never held in memory as a single string.  The keys are sorted the same way as `stringifyJson`, except within the
+ * configurations embedded in a project bundle, which keep the order they were authored in.  A bundle which is not
+ * compact is indented with tabs and ends with a newline, and in the expanded layout the text of each file is an array
+ * of its lines.
+ * @param bundle The project or environment bundle, or the manifest of a zip archive of one, which has no text to expand
+ * @param layout The layout of the JSON
+ */
+export function* stringifyBundle(
+	bundle: ProjectJson | EnvironmentJson | ProjectManifest | EnvironmentManifest,
+	layout: BundleLayout = 'compact'
+): IterableIterator<string> {
+	const indent = layout === 'compact' ? '' : '\t';
+	const newline = indent ? '\n' : '';
+	let separator = '{';
+	for (const key of Object.keys(bundle).sort()) {
+		const value = (<any>bundle)[key];
+		if (value === undefined) {
+			continue;
+		}
+		yield `${separator}${newline}${indent}${JSON.stringify(key)}:${indent ? ' ' : ''}`;
+		separator = ',';
+
+		if ((key === 'environmentFiles' || key === 'files') && value.length) {
+			yield '[';
+			for (let i = 0; i < value.length; i++) {
+				const file = layout === 'expanded' ? { ...value[i], text: value[i].text.split('\n') } : value[i];
+				yield `${i ? ',' : ''}${newline}${indent.repeat(2)}${stringifyNested(file, indent, 2)}`;
+			}
+			yield `${newline}${indent}]`;
+		} else {
+			yield stringifyNested(value, indent, 1, AUTHORED_KEYS.indexOf(key) === -1);
+		}
+	}
+	yield separator === '{' ? `{}${newline}` : `${newline}}${newline}`;
+}
+
+/**
+ * Return the hex encoded SHA-256 digest of the JSON of a bundle, which is hashed incrementally
+ * @param bundle The project or environment bundle
+ */
+export function getBundleHash(bundle: ProjectJson | EnvironmentJson) {
+	const hash = createHash('sha256');
+	for (const chunk of stringifyBundle(bundle)) {
+		hash.update(chunk, 'utf8');
+	}
+	return hash.digest('hex');
+}
+
+/**
+ * Replace the characters of a name which are not safe to use in a filename, including every path separator
+ * @param name The name to sanitize
+ */
+export function sanitizeFilename(name: string) {
+	return name
+		.replace(/[\/\\]/g, '-')
+		.replace(/[<>:"|?*\x00-\x1f]/g, '')
+		.replace(/^\.+/, '');
+}
+
+/**
+ * Return the filename a project bundle is written to.  The template can be an exact filename, or contain tokens which
+ * are replaced with the sanitized `{name}` and `{version}` of the package, the `{hash}` of the bundle, which is the
+ * first 8 characters of the content hash in its header, or of its content hash if it does not have a header, and the
+ * `{date}` of the export, as `YYYY-MM-DD`.
+ * @param project The project bundle
+ * @param format The format of the bundle
+ * @param template The filename template, which defaults to the name of the package with the extension of the format
+ * @param date The date of the export
+ */
+export function getProjectFilename(
+	project: ProjectJson,
+	format: BundleFormat,
+	template?: string,
+	date: Date = new Date()
+) {
+	const name = sanitizeFilename(project.package.name || '') || 'bundle';
+	if (!template) {
+		return getBundleFilename(name, format);
+	}
+
+	return template.replace(/\{(\w*)\}/g, (match, token: string) => {
+		switch (token) {
+			case 'name':
+				return name;
+			case 'version':
+				if (!project.package.version) {
+					warn(`"package.json" does not have a version, using "0.0.0" in the filename`);
+				}
+				return sanitizeFilename(project.package.version || '0.0.0');
+			case 'hash':
+				return (project.header ? project.header.hash : getBundleHash(project)).slice(0, 8);
+			case 'date':
+				return date.toISOString().slice(0, 10);
+			default:
+				throw new ProjectError(`Unknown token "${match}" in filename "${template}".`);
+		}
+	});
+}
+
+/**
+ * Create a readable stream which reads the chunks of an iterator
+ * @param chunks The chunks to read
+ */
+function createReadable(chunks: Iterator<string | Buffer>) {
+	return new Readable({
+		read() {
+			const { done, value } = chunks.next();
+			this.push(done ? null : value);
+		}
+	});
+}
+
+/**
+ * Parse the JSON of a bundle in any of the layouts, joining the lines of each file of an expanded bundle back into its
+ * text.  The bundle is not validated.
+ * @param json The JSON of the bundle
+ */
+export function parseBundle(json: string): ProjectJson | EnvironmentJson {
+	const bundle = JSON.parse(json);
+	if (bundle && typeof bundle === 'object') {
+		[bundle.environmentFiles, bundle.files].filter((files) => Array.isArray(files)).forEach((files: any[]) => {
+			files.forEach((file) => {
+				if (file && Array.isArray(file.text) && file.text.every((line: any) => typeof line === 'string')) {
+					file.text = file.text.join('\n');
+				}
+			});
+		});
+	}
+	return bundle;
+}
+
+/**
+ * Determine if a bundle is a project bundle, rather than an environment bundle
+ * @param bundle The bundle
+ */
+function isProjectJson(bundle: ProjectJson | EnvironmentJson): bundle is ProjectJson {
+	return 'files' in bundle;
+}
+
+/**
+ * Add the files of a project bundle to a zip archive in a directory, resolving to their entries in the manifest
+ * @param zip The zip archive
+ * @param directory The directory of the archive to add the files to
+ * @param files The files to add
+ */
+function addZipFiles(zip: JSZip, directory: string, files: ProjectFile[]): ManifestFile[] {
+	return files.map(({ hash, name, text, type }) => {
+		const path = posix.join(directory, posix.normalize(name.replace(/\\/g, '/')).replace(/^(\.\.\/)+/, ''));
+		zip.file(path, text, ZIP_FILE_OPTIONS);
+		return { hash, name, path, type };
+	});
+}
+
+/**
+ * An async function which creates a zip archive of a bundle.  The files of the bundle are stored at their names in the
+ * `files` and `environmentFiles` directories, and the rest of the bundle is stored in the manifest.
+ * @param bundle The project or environment bundle
+ * @param layout The layout of the JSON of the manifest, where the expanded layout is the same as the pretty layout
+ */
+async function createZip(bundle: ProjectJson | EnvironmentJson, layout: BundleLayout): Promise<Buffer> {
+	const zip = new JSZip();
+	const environmentFiles = addZipFiles(zip, 'environmentFiles', bundle.environmentFiles);
+	const manifest: ProjectManifest | EnvironmentManifest = isProjectJson(bundle)
+		? { ...bundle, environmentFiles, files: addZipFiles(zip, 'files', bundle.files) }
+		: { ...bundle, environmentFiles };
+	const json = [...stringifyBundle(manifest, layout === 'compact' ? 'compact' : 'pretty')].join('');
+	zip.file(MANIFEST, json, ZIP_FILE_OPTIONS);
+	return zip.generateAsync({ compression: 'DEFLATE', platform: 'UNIX', type: 'nodebuffer' });
+}
+
+/**
+ * An async function which resolves to a readable stream of a bundle serialized in a format
+ * @param bundle The project or environment bundle
+ * @param format The format to serialize the bundle in
+ * @param layout The layout of the JSON
+ */
+async function createBundleStream(
+	bundle: ProjectJson | EnvironmentJson,
+	format: BundleFormat,
+	layout: BundleLayout
+): Promise<Readable> {
+	switch (format) {
+		case 'json.gz':
+			return createReadable(stringifyBundle(bundle, layout)).pipe(createGzip());
+		case 'zip':
+			return createReadable([await createZip(bundle, layout)][Symbol.iterator]());
+		default:
+			return createReadable(stringifyBundle(bundle, layout));
+	}
+}
+
+/**
+ * An async function which serializes a bundle in a format and writes it to a stream, resolving once it is written
+ * @param stream The stream to write the bundle to
+ * @param bundle The project or environment bundle
+ * @param format The format to serialize the bundle in
+ * @param end If `false`, the stream is not ended after the bundle is written, which is required for `process.stdout`
+ * @param layout The layout of the JSON, which is compact by default
+ */
+export async function writeBundle(
+	stream: Writable,
+	bundle: ProjectJson | EnvironmentJson,
+	format: BundleFormat,
+	end = true,
+	layout: BundleLayout = 'compact'
+) {
+	const source = await createBundleStream(bundle, format, layout);
+	return new Promise<void>((resolve, reject) => {
+		source.on('error', reject);
+		stream.on('error', reject);
+		if (end) {
+			stream.on('finish', resolve);
+		} else {
+			source.on('end', resolve);
+		}
+		source.pipe(stream, { end });
+	});
+}
+
+/**
+ * An async function which decompresses gzipped data
+ * @param data The gzipped data
+ */
+async function gunzipData(data: Buffer) {
+	return new Promise<Buffer>((resolve, reject) => {
+		gunzip(data, (err, result) => {
+			if (err) {
+				reject(err);
+				return;
+			}
+			resolve(result);
+		});
+	});
+}
+
+/**
+ * An async function which reads the files of a zip archive which are listed in its manifest
+ * @param zip The zip archive
+ * @param files The entries of the manifest
+ */
+async function readZipFiles(zip: JSZip, files: ManifestFile[]): Promise<ProjectFile[]> {
+	return Promise.all(
+		files.map(async ({ path, ...file }) => {
+			const entry = zip.file(path);
+			if (!entry) {
+				throw new Error(`the archive does not contain "${path}"`);
+			}
+			return { ...file, text: await entry.async('string') };
+		})
+	);
+}
+
+/**
+ * An async function which reads a bundle from a zip archive, replacing the path of each file in the manifest with its
+ * text
+ * @param data The zip archive
+ */
+async function readZip(data: Buffer): Promise<ProjectJson | EnvironmentJson> {
+	const zip = await new JSZip().loadAsync(data);
+	const manifestFile = zip.file(MANIFEST);
+	if (!manifestFile) {
+		throw new Error(`the archive does not contain "${MANIFEST}"`);
+	}
+	const manifest: ProjectManifest | EnvironmentManifest = JSON.parse(await manifestFile.async('string'));
+	const environmentFiles = await readZipFiles(zip, manifest.environmentFiles || []);
+	if (!('files' in manifest)) {
+		return { ...manifest, environmentFiles };
+	}
+	const { files } = <ProjectManifest>manifest;
+	return { ...(<ProjectManifest>manifest), environmentFiles, files: await readZipFiles(zip, files || []) };
+}
+
+/**
+ * An async function which reads a bundle in any of the formats, which is determined from the extension of its
+ * filename.  The bundle is parsed but not validated.  If the bundle cannot be read, it rejects with a `ProjectError`.
+ * @param filename The filename of the bundle
+ */
+export async function readBundle(filename: string): Promise<ProjectJson | EnvironmentJson> {
+	const data = await getFileBuffer(filename);
+	try {
+		switch (getBundleFormat(filename)) {
+			case 'json.gz':
+				return parseBundle((await gunzipData(data)).toString('utf8'));
+			case 'zip':
+				return await readZip(data);
+			default:
+				return parseBundle(data.toString('utf8'));
+		}
+	} catch (e) {
+		throw new ProjectError(`Unable to read bundle "${filename}": ${e.message}`);
+	}
+}
@@ -0,0 +1,88 @@
+import { execFile } from 'child_process';
+import { createHash } from 'crypto';
+import { join } from 'path';
+
+import { getBundleHash } from './formats';
+import { BundleHeader, ProjectFile, ProjectJson } from './interfaces/project.json';
+const pkgDir = require('pkg-dir');
+
+/**
+ * The version of the format of the bundle, which is increased whenever the format changes incompatibly
+ */
+export const SCHEMA_VERSION = 1;
+
+/**
+ * Return the hex encoded SHA-256 digest of the text of a file
+ * @param text The text of the file
+ */
+export function getFileHash(text: string) {
+	return createHash('sha256')
+		.update(text, 'utf8')
+		.digest('hex');
+}
+
+/**
+ * Return a copy of a list of files, with the content hash of each file
+ * @param files The files
+ */
+function hashFiles(files: ProjectFile[]) {
+	return files.map((file) => ({ ...file, hash: getFileHash(file.text) }));
+}
+
+/**
+ * Return a copy of a project bundle where each of the files and environment files has its content hash
+ * @param project The project bundle
+ */
+export function addFileHashes(project: ProjectJson): ProjectJson {
+	return { ...project, environmentFiles: hashFiles(project.environmentFiles), files: hashFiles(project.files) };
+}
+
+/**
+ * Return the content hash of a project bundle which has a header, which is the hash of the bundle with the hash of
+ * its header set to an empty string
+ * @param project The project bundle
+ */
+export function getHeaderHash(project: ProjectJson & { header: BundleHeader }) {
+	return getBundleHash({ ...project, header: { ...project.header, hash: '' } });
+}
+
+/**
+ * Return the version of this package
+ */
+export function getExporterVersion(): string {
+	return require(join(pkgDir.sync(__dirname), 'package.json')).version;
+}
+
+/**
+ * An async function which resolves to the commit which is checked out in the git repository of a directory, or
+ * `undefined` if it is not in a git repository
+ * @param root The directory
+ */
+export async function getGitCommit(root: string) {
+	return new Promise<string | undefined>((resolve) => {
+		execFile('git', ['rev-parse', 'HEAD'], { cwd: root }, (err, stdout) => {
+			resolve(err ? undefined : String(stdout).trim() || undefined);
+		});
+	});
+}
+
+/**
+ * An async function which resolves to a copy of a project bundle with a header, which records the version of the
+ * exporter and of the format of the bundle, when and from which git commit the bundle was exported, and the content
+ * hash of the bundle.  The header is added last, once the files have their content hashes.
+ * @param root The root directory of the project
+ * @param project The project bundle
+ * @param timestamp Record when the bundle was exported, which makes every export of the project different
+ */
+export async function addHeader(root: string, project: ProjectJson, timestamp = true) {
+	const header: BundleHeader = {
+		commit: await getGitCommit(root),
+		created: timestamp ? new Date().toISOString() : undefined,
+		exporter: getExporterVersion(),
+		hash: '',
+		schema: SCHEMA_VERSION
+	};
+	const bundle = { ...project, header };
+	header.hash = getHeaderHash(bundle);
+	return bundle;
+}
@@ -0,0 +1,150 @@
+import { bold, underline } from 'chalk';
+import { dirname, join, normalize, relative, resolve, sep } from 'path';
+import { cwd } from 'process';
+
+import { getEnvironmentHash } from './environment';
+import { ProjectError } from './errors';
+import { getBundleFilename, getBundleFormat, readBundle } from './formats';
+import { EnvironmentJson, ProjectFile, ProjectFileType, ProjectJson } from './interfaces/project.json';
+import { indent, log, setVerbose, verbose } from './log';
+import { ensureDir, exists, setFile } from './util';
+
+export interface ImportArgs {
+	bundle: string;
+	environment: boolean;
+	force: boolean;
+	out: string;
+	verbose: boolean;
+}
+
+/**
+ * A description of a file that will be written to disk when importing a project bundle
+ */
+interface ImportFile {
+	/**
+	 * The filename, relative to the target directory
+	 */
+	name: string;
+
+	/**
+	 * The contents of the file
+	 */
+	text: string;
+}
+
+/**
+ * Serialize a configuration object the same way it would be authored in a project
+ * @param json The object to serialize
+ */
+function stringifyConfig(json: object) {
+	return JSON.stringify(json, null, '\t') + '\n';
+}
+
+/**
+ * Determine where an environment file should be written to, so that it is resolvable from the project
+ * @param file The environment file
+ */
+function getEnvironmentFileName({ name, type }: ProjectFile) {
+	if (type === ProjectFileType.Lib) {
+		return join('node_modules', 'typescript', 'lib', name);
+	}
+	const filename = normalize(name);
+	return filename.split(sep)[0] === 'node_modules' ? filename : join('node_modules', filename);
+}
+
+/**
+ * An async function which resolves to the environment files of a project bundle.  If they were split into an
+ * environment bundle, it is read from the directory of the project bundle, in the same format as the project bundle,
+ * and checked against its hash.
+ * @param bundle The filename of the project bundle
+ * @param project The project bundle
+ */
+async function getEnvironmentFiles(bundle: string, project: ProjectJson) {
+	if (!project.environment) {
+		return project.environmentFiles;
+	}
+
+	const format = getBundleFormat(bundle);
+	const filename = join(dirname(bundle), getBundleFilename(project.environment, format, 'environment'));
+	verbose(indent(), bold.blue('reading'), ` "${filename}"`);
+	const environment = <EnvironmentJson>await readBundle(filename);
+	if (getEnvironmentHash(environment) !== project.environment) {
+		throw new ProjectError(`Environment bundle "${filename}" does not match hash "${project.environment}".`);
+	}
+	return environment.environmentFiles;
+}
+
+/**
+ * Generate the list of files to be written from a project bundle
+ * @param project The project bundle
+ * @param environmentFiles The environment files to include, if any
+ */
+function getImportFiles(project: ProjectJson, environmentFiles: ProjectFile[] = []) {
+	const files: ImportFile[] = project.files.map(({ name, text }) => ({ name: normalize(name), text }));
+
+	files.push({ name: 'package.json', text: stringifyConfig(project.package) });
+	files.push({ name: 'tsconfig.json', text: stringifyConfig(project.tsconfig) });
+	if (project.dojorc) {
+		files.push({ name: '.dojorc', text: stringifyConfig(project.dojorc) });
+	}
+	files.push(...environmentFiles.map((file) => ({ name: getEnvironmentFileName(file), text: file.text })));
+
+	return files;
+}
+
+/**
+ * Resolve the absolute path of a file being imported, ensuring it does not escape the target directory
+ * @param root The target directory
+ * @param name The filename, relative to the target directory
+ */
+function resolveImportFile(root: string, name: string) {
+	const filename = resolve(root, name);
+	if (relative(root, filename).split(sep)[0] === '..') {
+		throw new ProjectError(`Bundle file "${name}" resolves outside of the target path "${root}".`);
+	}
+	return filename;
+}
+
+/**
+ * An async function which resolves when a project bundle has been written out to the specified path.  If the import
+ * fails, it rejects with a `ProjectError`.
+ */
+export default async function importProject({ bundle, environment, force, out, verbose: verboseFlag }: ImportArgs) {
+	setVerbose(verboseFlag);
+
+	log(underline('\nImport project bundle'));
+
+	try {
+		const root = resolve(out);
+
+		verbose(indent(), bold.blue('reading'), ` "${bundle}"`);
+		const project = <ProjectJson>await readBundle(bundle);
+		const files = getImportFiles(project, environment ? await getEnvironmentFiles(bundle, project) : undefined);
+		const filenames = files.map(({ name }) => resolveImportFile(root, name));
+
+		if (!force) {
+			const existing: string[] = [];
+			for (let i = 0; i < files.length; i++) {
+				if (await exists(filenames[i])) {
+					existing.push(files[i].name);
+				}
+			}
+			if (existing.length) {
+				throw new ProjectError(
+					`Path "${root}" already contains "${existing.join('", "')}". Use "--force" to overwrite.`
+				);
+			}
+		}
+
+		for (let i = 0; i < files.length; i++) {
+			await ensureDir(dirname(filenames[i]));
+			await setFile(filenames[i], files[i].text);
+			verbose(indent(), bold.blue('writing'), ` "${files[i].name}"`);
+		}
+
+		log(indent(), bold.green('imported'), ` ${files.length} files to "${relative(cwd(), root) || '.'}"\n`);
+	} catch (e) {
+		verbose(indent(), bold.red('errored'), ' ', e.stack, '\n');
+		throw e instanceof ProjectError ? e : new ProjectError(e.message);
+	}
+}
@@ -1,7 +1,23 @@
-declare module 'resolve-cwd' {
+declare module 'resolve-from' {
 	namespace resolve {
 
 	}
-	function resolve(path: string): string;
+	function resolve(fromDir: string, moduleId: string): string;
 	export = resolve;
 }
+
+declare module 'chokidar' {
+	import { EventEmitter } from 'events';
+
+	interface WatchOptions {
+		cwd?: string;
+		ignoreInitial?: boolean;
+		ignored?: string | string[];
+	}
+
+	class FSWatcher extends EventEmitter {
+		close(): void;
+	}
+
+	function watch(paths: string | string[], options?: WatchOptions): FSWatcher;
+}
@@ -21,6 +21,15 @@ export interface ProjectJson {
 		development: {
 			[pkg: string]: string;
 		};
+
+		/**
+		 * The packages installed in `node_modules` for the production and development dependencies, including
+		 * transitive dependencies, nearest to the project first
+		 */
+		resolved?: {
+			production: ResolvedDependency[];
+			development: ResolvedDependency[];
+		};
 	};
 
 	/**
@@ -28,6 +37,12 @@ export interface ProjectJson {
 	 */
 	dojorc?: DojoRcJson;
 
+	/**
+	 * The content hash of the environment bundle which the environment files were split into, in which case the
+	 * `environmentFiles` of the project bundle are empty
+	 */
+	environment?: string;
+
 	/**
 	 * Files that are part of the environment but are not exposed for editing
 	 *
@@ -41,6 +56,11 @@ export interface ProjectJson {
 	 */
 	files: ProjectFile[];
 
+	/**
+	 * Information about the bundle itself, which is added when the bundle is exported
+	 */
+	header?: BundleHeader;
+
 	/**
 	 * The filename of the HTML document for the project to load when running it
 	 */
@@ -62,7 +82,84 @@ export interface ProjectJson {
 	tslint?: TslintJson;
 }
 
+export interface ResolvedDependency {
+	/**
+	 * The integrity hash of the installed package, when resolved from a lockfile
+	 */
+	integrity?: string;
+
+	/**
+	 * The name of the package
+	 */
+	name: string;
+
+	/**
+	 * The names of the packages which depend on each other down to this package, starting with a dependency of the
+	 * project, which is empty for the dependencies of the project itself
+	 */
+	path: string[];
+
+	/**
+	 * The semver range the package is required with
+	 */
+	range: string;
+
+	/**
+	 * The URL the installed package was downloaded from, when resolved from a lockfile
+	 */
+	resolved?: string;
+
+	/**
+	 * The version of the package installed in `node_modules`, which is absent if the package is not installed
+	 */
+	version?: string;
+}
+
+/**
+ * A bundle of environment files which is shared between projects, and is referenced by its content hash
+ */
+export interface EnvironmentJson {
+	/**
+	 * The environment files, sorted by name
+	 */
+	environmentFiles: ProjectFile[];
+}
+
+/**
+ * Information about an exported project bundle, so that consumers can verify the bundle and detect stale copies of it
+ */
+export interface BundleHeader {
+	/**
+	 * The git commit of the project the bundle was exported from, if it is in a git repository
+	 */
+	commit?: string;
+
+	/**
+	 * When the bundle was exported, as an ISO 8601 timestamp, unless timestamps were disabled
+	 */
+	created?: string;
+
+	/**
+	 * The version of `@dojo/cli-export-project` which exported the bundle
+	 */
+	exporter: string;
+
+	/**
+	 * The hex encoded SHA-256 digest of the JSON of the bundle, with this hash set to an empty string
+	 */
+	hash: string;
+
+	/**
+	 * The version of the format of the bundle
+	 */
+	schema: number;
+}
+
 export interface ProjectFile {
+	/**
+	 * The hex encoded SHA-256 digest of the text of the file, which is added when the bundle is exported
+	 */
+	hash?: string;
 	type: ProjectFileType;
 	name: string;
 	text: string;
@@ -353,4 +353,5 @@ export type JsonSchemaForTheTypeScriptCompilersConfigurationFile = CompilerOptio
 	TypeAcquisitionDefinition &
 	ExtendsDefinition &
 	FilesDefinition &
+	ExcludeDefinition &
 	IncludeDefinition;
@@ -0,0 +1,183 @@
+/**
+ * Replace comments, trailing commas and a byte order mark in JSON-with-comments text with whitespace, so that the
+ * result can be parsed as strict JSON while character offsets still match the original text.
+ * @param text The JSON-with-comments text
+ */
+function stripJsonc(text: string) {
+	const chars = text.replace(/^\uFEFF/, ' ').split('');
+	let inString = false;
+	let trailingComma = -1;
+
+	for (let i = 0; i < chars.length; i++) {
+		const char = chars[i];
+
+		if (inString) {
+			if (char === '\\') {
+				i++;
+			} else if (char === '"') {
+				inString = false;
+			}
+		} else if (char === '/' && chars[i + 1] === '/') {
+			for (; i < chars.length && chars[i] !== '\n'; i++) {
+				chars[i] = ' ';
+			}
+		} else if (char === '/' && chars[i + 1] === '*') {
+			const end = text.indexOf('*/', i + 2);
+			const last = end === -1 ? chars.length - 1 : end + 1;
+			for (; i <= last; i++) {
+				chars[i] = /\s/.test(chars[i]) ? chars[i] : ' ';
+			}
+			i--;
+		} else if (!/\s/.test(char)) {
+			if (trailingComma !== -1 && (char === '}' || char === ']')) {
+				chars[trailingComma] = ' ';
+			}
+			trailingComma = char === ',' ? i : -1;
+			inString = char === '"';
+		}
+	}
+
+	return chars.join('');
+}
+
+/**
+ * The first syntax error in some JSON text
+ */
+interface JsonSyntaxError {
+	/**
+	 * The character offset of the error
+	 */
+	offset: number;
+
+	/**
+	 * A description of the error, which does not include any of the text
+	 */
+	reason: string;
+}
+
+/**
+ * Patterns which match a single JSON token at the `lastIndex` they are set to
+ */
+const JSON_TOKENS = {
+	literal: /(?:true|false|null)(?![\w$])/y,
+	number: /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?(?![\w$.])/y,
+	string: /"(?:[^"\\\u0000-\u001f]|\\(?:["\\\/bfnrt]|u[0-9a-fA-F]{4}))*"/y,
+	whitespace: /[ \t\n\r]*/y
+};
+
+/**
+ * Find the first syntax error in strict JSON text, scanning it the same way as `JSON.parse`, so that the error can be
+ * reported by its position regardless of the messages of the JavaScript engine
+ * @param json The JSON text
+ */
+function findSyntaxError(json: string): JsonSyntaxError {
+	const end = json.replace(/\s+$/, '').length;
+	let offset = 0;
+
+	const match = (pattern: RegExp) => {
+		pattern.lastIndex = offset;
+		const result = pattern.exec(json);
+		if (result) {
+			offset += result[0].length;
+		}
+		return Boolean(result);
+	};
+	const unexpected = (): JsonSyntaxError =>
+		offset >= end
+			? { offset: end, reason: 'Unexpected end of JSON input' }
+			: { offset, reason: `Unexpected token ${JSON.stringify(json[offset])}` };
+	const invalidString = (): JsonSyntaxError => {
+		for (let i = offset + 1; i < json.length; i++) {
+			if (json[i] === '\\') {
+				if (!/^(["\\\/bfnrt]|u[0-9a-fA-F]{4})/.test(json.slice(i + 1, i + 6))) {
+					return { offset: i, reason: 'Bad escaped character in string' };
+				}
+				i++;
+			} else if (json.charCodeAt(i) < 0x20) {
+				return { offset: i, reason: 'Bad control character in string' };
+			}
+		}
+		return { offset, reason: 'Unterminated string' };
+	};
+	const scanValue = (): JsonSyntaxError | undefined => {
+		match(JSON_TOKENS.whitespace);
+		const char = json[offset];
+		if (char === '{' || char === '[') {
+			const close = char === '{' ? '}' : ']';
+			offset++;
+			match(JSON_TOKENS.whitespace);
+			if (json[offset] === close) {
+				offset++;
+				return undefined;
+			}
+			while (true) {
+				if (close === '}') {
+					match(JSON_TOKENS.whitespace);
+					if (json[offset] !== '"') {
+						return unexpected();
+					}
+					if (!match(JSON_TOKENS.string)) {
+						return invalidString();
+					}
+					match(JSON_TOKENS.whitespace);
+					if (json[offset] !== ':') {
+						return unexpected();
+					}
+					offset++;
+				}
+				const error = scanValue();
+				if (error) {
+					return error;
+				}
+				match(JSON_TOKENS.whitespace);
+				if (json[offset] === close) {
+					offset++;
+					return undefined;
+				}
+				if (json[offset] !== ',') {
+					return unexpected();
+				}
+				offset++;
+			}
+		}
+		if (char === '"') {
+			return match(JSON_TOKENS.string) ? undefined : invalidString();
+		}
+		return match(JSON_TOKENS.number) || match(JSON_TOKENS.literal) ? undefined : unexpected();
+	};
+
+	const error = scanValue();
+	if (error) {
+		return error;
+	}
+	match(JSON_TOKENS.whitespace);
+	return offset < json.length ? unexpected() : { offset: end, reason: 'Invalid JSON' };
+}
+
+/**
+ * Convert a character offset in some text to a line and column number, both starting at `1`
+ * @param text The text
+ * @param offset The character offset
+ */
+function getPosition(text: string, offset: number) {
+	const lines = text.slice(0, offset).split('\n');
+	return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+/**
+ * Parse JSON-with-comments text, as accepted by `tsc` for a `tsconfig.json`, which allows comments and trailing
+ * commas.  If the text cannot be parsed, the error thrown reports the filename, line and column of the problem.
+ * @param text The text to parse
+ * @param filename The name of the file the text was read from, used in error messages
+ */
+export function parseJsonc(text: string, filename: string) {
+	const json = stripJsonc(text);
+
+	try {
+		return JSON.parse(json);
+	} catch (e) {
+		const { offset, reason } = findSyntaxError(json);
+		const { line, column } = getPosition(text, offset);
+		throw new SyntaxError(`Unable to parse "${filename}" (${line}:${column}): ${reason}`);
+	}
+}
@@ -0,0 +1,250 @@
+import { bold } from 'chalk';
+import { join } from 'path';
+
+import { ExportContext } from './context';
+import { indent } from './log';
+import { exists, getFile } from './util';
+
+/**
+ * A package which is installed for a dependency
+ */
+export interface InstalledPackage {
+	/**
+	 * The dependencies and peer dependencies of the package, where the package name is the key and the value is the
+	 * semver range
+	 */
+	dependencies: { [pkg: string]: string };
+
+	/**
+	 * The integrity hash of the package, when installed from a lockfile
+	 */
+	integrity?: string;
+
+	/**
+	 * Uniquely identifies the installed package, and is where the dependencies of the package are resolved from
+	 */
+	location: string;
+
+	/**
+	 * The URL the package was downloaded from, when installed from a lockfile
+	 */
+	resolved?: string;
+
+	/**
+	 * The installed version of the package
+	 */
+	version?: string;
+}
+
+/**
+ * An async function which resolves to the package installed for a dependency, or `undefined` if it is not installed
+ * @param name The name of the package
+ * @param range The semver range the package is required with
+ * @param parent The package which depends on the package, or `undefined` for a dependency of the project
+ */
+export type PackageResolver = (
+	name: string,
+	range: string,
+	parent?: InstalledPackage
+) => Promise<InstalledPackage | undefined>;
+
+/**
+ * An entry in the `packages` of a version 2 or 3 `package-lock.json`
+ */
+interface PackageLockEntry {
+	dependencies?: { [pkg: string]: string };
+	integrity?: string;
+	link?: boolean;
+	optionalDependencies?: { [pkg: string]: string };
+	peerDependencies?: { [pkg: string]: string };
+	resolved?: string;
+	version?: string;
+}
+
+/**
+ * An entry in the `dependencies` of a version 1 `package-lock.json`
+ */
+interface PackageLockV1Entry {
+	dependencies?: { [pkg: string]: PackageLockV1Entry };
+	integrity?: string;
+	requires?: { [pkg: string]: string };
+	resolved?: string;
+	version?: string;
+}
+
+/**
+ * An entry of a `yarn.lock`
+ */
+interface YarnLockEntry {
+	dependencies: { [pkg: string]: string };
+	integrity?: string;
+	resolved?: string;
+	version?: string;
+}
+
+/**
+ * The lockfiles which are supported, in order of precedence
+ */
+const LOCKFILES = ['npm-shrinkwrap.json', 'package-lock.json', 'yarn.lock'];
+
+/**
+ * Flatten the nested `dependencies` of a version 1 `package-lock.json` into the `packages` layout of later versions,
+ * where each package is keyed by its location in `node_modules`
+ * @param dependencies The nested dependencies
+ * @param prefix The location of the package the dependencies are nested in
+ * @param packages The flattened packages
+ */
+function flattenPackageLockV1(
+	dependencies: { [pkg: string]: PackageLockV1Entry } = {},
+	prefix = '',
+	packages: { [location: string]: PackageLockEntry } = {}
+) {
+	Object.keys(dependencies).forEach((name) => {
+		const { dependencies: nested, integrity, requires, resolved, version } = dependencies[name];
+		const location = `${prefix}node_modules/${name}`;
+		packages[location] = { dependencies: requires, integrity, resolved, version };
+		flattenPackageLockV1(nested, `${location}/`, packages);
+	});
+	return packages;
+}
+
+/**
+ * Return the location of the package which a package is nested in, or `''` for the project
+ * @param location The location of the nested package
+ */
+function getParentLocation(location: string) {
+	const parent = location.replace(/\/?node_modules\/(@[^\/]+\/)?[^\/]+$/, '');
+	return parent === location ? '' : parent;
+}
+
+/**
+ * Create a resolver which resolves packages from the contents of a `package-lock.json` or `npm-shrinkwrap.json`,
+ * searching the `node_modules` locations from the dependent package up to the project the same way `require` does
+ * @param text The text of the lockfile
+ */
+function getPackageLockResolver(text: string): PackageResolver {
+	const lockfile = JSON.parse(text);
+	const packages: { [location: string]: PackageLockEntry } =
+		lockfile.packages || flattenPackageLockV1(lockfile.dependencies);
+
+	return async (name, range, parent) => {
+		for (let location = parent ? parent.location : ''; ; location = getParentLocation(location)) {
+			let key = `${location ? `${location}/` : ''}node_modules/${name}`;
+			let entry = packages[key];
+			if (entry && entry.link && entry.resolved) {
+				key = entry.resolved;
+				entry = packages[key];
+			}
+			if (entry) {
+				const { dependencies, integrity, optionalDependencies, peerDependencies, resolved, version } = entry;
+				return {
+					dependencies: { ...peerDependencies, ...optionalDependencies, ...dependencies },
+					integrity,
+					location: key,
+					resolved,
+					version
+				};
+			}
+			if (!location) {
+				return undefined;
+			}
+		}
+	};
+}
+
+/**
+ * Remove the quotes around a value in a `yarn.lock`
+ * @param value The possibly quoted value
+ */
+function unquote(value: string) {
+	return value.replace(/^"(.*)"$/, '$1');
+}
+
+/**
+ * Parse the contents of a version 1 `yarn.lock` into a map of entries, keyed by each `name@range` they satisfy
+ * @param text The text of the lockfile
+ */
+function parseYarnLock(text: string) {
+	const entries: { [pattern: string]: YarnLockEntry } = {};
+	let entry: YarnLockEntry | undefined;
+	let section: { [pkg: string]: string } | undefined;
+
+	text.split(/\r?\n/).forEach((line) => {
+		if (!line.trim() || /^\s*#/.test(line)) {
+			return;
+		}
+
+		const depth = /^ */.exec(line)![0].length;
+		const content = line.trim();
+		if (depth === 0) {
+			entry = { dependencies: {} };
+			section = undefined;
+			content
+				.replace(/:$/, '')
+				.split(/,\s*/)
+				.forEach((pattern) => {
+					entries[unquote(pattern)] = entry!;
+				});
+		} else if (entry && depth <= 2) {
+			const match = /^("[^"]+"|\S+?):?(?:\s+(.+))?$/.exec(content)!;
+			const key = unquote(match[1]);
+			section = undefined;
+			if (match[2] === undefined) {
+				section = /^(dependencies|optionalDependencies|peerDependencies)$/.test(key)
+					? entry.dependencies
+					: undefined;
+			} else if (key === 'version' || key === 'resolved' || key === 'integrity') {
+				entry[key] = unquote(match[2]);
+			}
+		} else if (section) {
+			const match = /^("[^"]+"|\S+)\s+(.+)$/.exec(content);
+			if (match) {
+				section[unquote(match[1])] = unquote(match[2]);
+			}
+		}
+	});
+
+	return entries;
+}
+
+/**
+ * Create a resolver which resolves packages from the contents of a version 1 `yarn.lock`
+ * @param text The text of the lockfile
+ */
+function getYarnLockResolver(text: string): PackageResolver {
+	const entries = parseYarnLock(text);
+
+	return async (name, range) => {
+		const entry = entries[`${name}@${range}`];
+		if (!entry) {
+			return undefined;
+		}
+		const { dependencies, integrity, resolved, version } = entry;
+		return { dependencies, integrity, location: `${name}@${version}`, resolved, version };
+	};
+}
+
+/**
+ * An async function which reads the lockfile of a project, resolving to a resolver for the packages it locks, or
+ * `undefined` if the project does not have a supported lockfile
+ * @param context The state of the export
+ * @param root The root directory of the project
+ */
+export async function readLockfile(context: ExportContext, root: string): Promise<PackageResolver | undefined> {
+	for (const filename of LOCKFILES) {
+		if (!await exists(join(root, filename))) {
+			continue;
+		}
+
+		context.verbose(indent(), bold.blue('reading'), ` "${filename}"`);
+		const text = await getFile(join(root, filename), context);
+		if (filename !== 'yarn.lock') {
+			return getPackageLockResolver(text);
+		}
+		if (/^__metadata:/m.test(text)) {
+			context.warn(`"${filename}" is not a version 1 lockfile and is ignored`);
+			return undefined;
+		}
+		return getYarnLockResolver(text);
+	}
+}
@@ -1,10 +1,19 @@
+import { bold } from 'chalk';
+import { StrictModeError } from './errors';
+
 export let verboseFlag = false;
+export let strictFlag = false;
+export let stderrFlag = false;
 
 /**
- * Log a message to the console
+ * Log a message to the console, on stderr if stdout is being used for output
  * @param text The message to be logged
  */
 export function log(...text: any[]) {
+	if (stderrFlag) {
+		console.error(text.join(''));
+		return;
+	}
 	console.log(text.join(''));
 }
 
@@ -19,6 +28,17 @@ export function verbose(...text: any[]) {
 	log(...text);
 }
 
+/**
+ * Log a warning to the console, or if warnings are treated as errors, throw it
+ * @param message The warning to be logged
+ */
+export function warn(message: string) {
+	if (strictFlag) {
+		throw new StrictModeError(message);
+	}
+	log(indent(), bold.yellow('warn'), ' ', message);
+}
+
 /**
  * Indents a message
  * @param num the number of indents
@@ -34,3 +54,11 @@ export function indent(num: number = 1, message: string = '') {
 export function setVerbose(verbose: boolean) {
 	verboseFlag = verbose;
 }
+
+export function setStrict(strict: boolean) {
+	strictFlag = strict;
+}
+
+export function setStderr(stderr: boolean) {
+	stderrFlag = stderr;
+}
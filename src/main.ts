@@ -1,14 +1,40 @@
 import { Command, Helper, OptionsHelper } from '@dojo/cli/interfaces';
 import { join } from 'path';
+import { Writable } from 'stream';
+import diffProject from './diffProject';
+import { ProjectError } from './errors';
 import exportProject from './exportProject';
+import { BundleFormat, FORMATS } from './formats';
+import importProject from './importProject';
+import validateProject from './validate';
 const pkgDir = require('pkg-dir');
 
 export interface ExportArgs {
+	cache: boolean;
+	cacheDir: string | undefined;
+	concurrency: number | undefined;
 	content: string | undefined;
-	out: string;
+	diff: string[] | undefined;
+	expanded: boolean;
+	filename: string | undefined;
+	force: boolean;
+	format: BundleFormat;
+	import: string | undefined;
+	importEnvironment: boolean;
+	json: boolean;
+	out: string | Writable;
 	index: string | undefined;
+	pretty: boolean;
 	project: string;
+	splitEnvironment: boolean;
+	strict: boolean;
+	timestamp: boolean;
+	transpile: boolean;
+	treeShake: boolean;
+	validate: string | undefined;
 	verbose: boolean;
+	verify: boolean;
+	watch: boolean;
 }
 
 function buildNpmDependencies(): { [pkg: string]: string } {
@@ -35,6 +61,62 @@ const command: Command<ExportArgs> = {
 			type: 'string'
 		});
 
+		options('C', {
+			alias: 'cache',
+			describe:
+				'Reuse the files which have not changed since the previous export from the cache.  Use "--no-cache" ' +
+				'to read every file.',
+			type: 'boolean',
+			default: true
+		});
+
+		options('d', {
+			alias: 'cache-dir',
+			describe:
+				'The directory to store the cache in.  Defaults to "node_modules/.cache/cli-export-project" in the ' +
+				'project.',
+			type: 'string'
+		});
+
+		options('D', {
+			alias: 'diff',
+			describe:
+				'Report the differences between the two supplied project bundles, the old one and then the new one, ' +
+				'in any of the formats, instead of exporting the project.',
+			type: 'string',
+			nargs: 2
+		});
+
+		options('e', {
+			alias: 'split-environment',
+			describe:
+				'Write the environment files to a separate environment bundle, named by its content hash, which the ' +
+				'project bundle references instead of inlining the files.',
+			default: false
+		});
+
+		options('E', {
+			alias: 'import-environment',
+			describe: 'When importing a project bundle, also write its environment files to a "node_modules" stub.',
+			default: false
+		});
+
+		options('f', {
+			alias: 'format',
+			describe:
+				'The format of the generated bundle, either a JSON file, a gzipped JSON file or a zip archive of the ' +
+				'project files with a manifest.  Defaults to "json".',
+			choices: Object.keys(FORMATS),
+			type: 'string',
+			default: 'json'
+		});
+
+		options('F', {
+			alias: 'force',
+			describe: 'When importing a project bundle, overwrite files that already exist in the output path.',
+			default: false
+		});
+
 		options('i', {
 			alias: 'index',
 			describe:
@@ -42,13 +124,60 @@ const command: Command<ExportArgs> = {
 				'"./src/index.html".'
 		});
 
+		options('I', {
+			alias: 'import',
+			describe:
+				'Import the supplied project bundle, in any of the formats, instead of exporting the project, ' +
+				'writing its files to the output path.',
+			type: 'string'
+		});
+
+		options('j', {
+			alias: 'concurrency',
+			describe: 'The maximum number of files which are read at once.  Defaults to 64.',
+			type: 'number'
+		});
+
+		options('J', {
+			alias: 'transpile',
+			describe:
+				'Transpile each TypeScript project file with the compiler options of the project, and include the ' +
+				'JavaScript files and their source maps in the bundle.',
+			default: false
+		});
+
+		options('k', {
+			alias: 'verify',
+			describe:
+				'Type check the exported bundle in memory, from only its own files, failing if the compiler reports ' +
+				'any errors.',
+			default: false
+		});
+
+		options('n', {
+			alias: 'filename',
+			describe:
+				'The filename of the generated bundle, which can contain the tokens "{name}", "{version}", "{hash}" ' +
+				'and "{date}".  Defaults to the package name with the extension of the format.',
+			type: 'string'
+		});
+
 		options('o', {
 			alias: 'out',
-			describe: 'The output path for the generated bundle.  Defaults to the current working directory.',
+			describe:
+				'The output path for the generated bundle, or "-" to write the bundle to stdout.  Defaults to the ' +
+				'current working directory.',
 			type: 'string',
 			default: '.'
 		});
 
+		options('O', {
+			alias: 'json',
+			describe:
+				'When comparing project bundles, write the differences to stdout as JSON instead of describing them.',
+			default: false
+		});
+
 		options('p', {
 			alias: 'project',
 			describe: 'The path to the root of the project to bundle.  Defaults to the current working directory.',
@@ -56,14 +185,86 @@ const command: Command<ExportArgs> = {
 			default: '.'
 		});
 
+		options('P', {
+			alias: 'pretty',
+			describe: 'Indent the JSON of the bundle, so that it can be read and its changes reviewed.',
+			default: false
+		});
+
+		options('s', {
+			alias: 'strict',
+			describe: 'Treat warnings as errors, failing the export.',
+			default: false
+		});
+
+		options('t', {
+			alias: 'tree-shake',
+			describe:
+				'Only include the definition files which are referenced by the project, instead of all of those in ' +
+				'"node_modules/@dojo" and "node_modules/@types".',
+			default: false
+		});
+
+		options('T', {
+			alias: 'timestamp',
+			describe:
+				'Record when the bundle was exported in its header.  Use "--no-timestamp" to export the same bundle ' +
+				'each time.',
+			type: 'boolean',
+			default: true
+		});
+
 		options('v', {
 			alias: 'verbose',
 			describe: 'Provide verbose output when generating the editor bundle.',
 			default: false
 		});
+
+		options('V', {
+			alias: 'validate',
+			describe:
+				'Validate the supplied project bundle, in any of the formats, instead of exporting the project, ' +
+				'failing if it is not a well formed project bundle.',
+			type: 'string'
+		});
+
+		options('w', {
+			alias: 'watch',
+			describe:
+				'Watch the files the project includes, "package.json", "tsconfig.json" and ".dojorc", and export the ' +
+				'bundle again when they change.',
+			default: false
+		});
+
+		options('x', {
+			alias: 'expanded',
+			describe:
+				'Indent the JSON of the bundle and write the text of each file as an array of its lines, so that a ' +
+				'bundle checked into version control can be reviewed and merged line by line.',
+			default: false
+		});
 	},
 
 	async run(helper: Helper, args: ExportArgs) {
+		if (args.validate) {
+			return validateProject(args.validate, args.verbose);
+		}
+		if (args.diff) {
+			const [from, to] = args.diff;
+			return diffProject({ from, json: args.json, to, verbose: args.verbose });
+		}
+		if (args.import) {
+			if (typeof args.out !== 'string' || args.out === '-') {
+				throw new ProjectError('A project bundle can only be imported to a directory.');
+			}
+			return importProject({
+				bundle: args.import,
+				environment: args.importEnvironment,
+				force: args.force,
+				out: args.out,
+				verbose: args.verbose
+			});
+		}
 		return exportProject(args);
 	},
 
@@ -0,0 +1,132 @@
+/**
+ * A line of the difference between two texts, which is in both of them, only in the old text or only in the new text
+ */
+export interface DiffLine {
+	/**
+	 * `' '` for a line in both texts, `'-'` for a removed line and `'+'` for an added line
+	 */
+	op: ' ' | '-' | '+';
+
+	/**
+	 * The text of the line
+	 */
+	text: string;
+}
+
+/**
+ * The largest number of cells of the table of longest common subsequences which is computed, beyond which the changed
+ * lines are all removed and added instead of being matched up, to bound the memory used for large rewrites
+ */
+const MAX_TABLE_SIZE = 4000000;
+
+/**
+ * Return the differences between two lists of lines, as the lines of the old text with the removed and added lines
+ * in place.  The lines between the common start and end of the lists are matched by their longest common subsequence.
+ * @param from The lines of the old text
+ * @param to The lines of the new text
+ */
+export function diffLines(from: string[], to: string[]): DiffLine[] {
+	let start = 0;
+	while (start < from.length && start < to.length && from[start] === to[start]) {
+		start++;
+	}
+	let end = 0;
+	while (
+		end < from.length - start &&
+		end < to.length - start &&
+		from[from.length - 1 - end] === to[to.length - 1 - end]
+	) {
+		end++;
+	}
+
+	const removed = from.slice(start, from.length - end);
+	const added = to.slice(start, to.length - end);
+	const lines: DiffLine[] = from.slice(0, start).map((text): DiffLine => ({ op: ' ', text }));
+
+	let i = 0;
+	let j = 0;
+	if (removed.length * added.length <= MAX_TABLE_SIZE) {
+		/* lengths[i][j] is the length of the longest common subsequence of removed[i..] and added[j..] */
+		const lengths = [...removed, ''].map(() => new Uint32Array(added.length + 1));
+		for (let x = removed.length - 1; x >= 0; x--) {
+			for (let y = added.length - 1; y >= 0; y--) {
+				lengths[x][y] =
+					removed[x] === added[y]
+						? lengths[x + 1][y + 1] + 1
+						: Math.max(lengths[x + 1][y], lengths[x][y + 1]);
+			}
+		}
+		while (i < removed.length && j < added.length) {
+			if (removed[i] === added[j]) {
+				lines.push({ op: ' ', text: removed[i] });
+				i++;
+				j++;
+			} else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+				lines.push({ op: '-', text: removed[i++] });
+			} else {
+				lines.push({ op: '+', text: added[j++] });
+			}
+		}
+	}
+	lines.push(...removed.slice(i).map((text): DiffLine => ({ op: '-', text })));
+	lines.push(...added.slice(j).map((text): DiffLine => ({ op: '+', text })));
+	lines.push(...from.slice(from.length - end).map((text): DiffLine => ({ op: ' ', text })));
+
+	return lines;
+}
+
+/**
+ * Return the range header of a hunk of a unified diff
+ * @param lines The lines of the hunk
+ * @param oldStart The index of the first line of the hunk in the old text
+ * @param newStart The index of the first line of the hunk in the new text
+ */
+function getHunkHeader(lines: DiffLine[], oldStart: number, newStart: number) {
+	const oldCount = lines.filter(({ op }) => op !== '+').length;
+	const newCount = lines.filter(({ op }) => op !== '-').length;
+	const range = (start: number, count: number) => `${count ? start + 1 : start},${count}`;
+	return `@@ -${range(oldStart, oldCount)} +${range(newStart, newCount)} @@`;
+}
+
+/**
+ * Return the differences between two versions of a file as a unified diff, or an empty string if they are the same
+ * @param name The name of the file
+ * @param from The old text of the file
+ * @param to The new text of the file
+ * @param context The number of unchanged lines to show around each change
+ */
+export function createUnifiedDiff(name: string, from: string, to: string, context = 3) {
+	const lines = diffLines(from.split('\n'), to.split('\n'));
+	const changes = lines.map(({ op }, index) => (op === ' ' ? -1 : index)).filter((index) => index !== -1);
+	if (!changes.length) {
+		return '';
+	}
+
+	/* group the changes which are close enough together that their context overlaps into hunks */
+	const hunks: [number, number][] = [];
+	changes.forEach((index) => {
+		const last = hunks[hunks.length - 1];
+		if (last && index - context <= last[1]) {
+			last[1] = Math.min(index + context + 1, lines.length);
+		} else {
+			hunks.push([Math.max(index - context, 0), Math.min(index + context + 1, lines.length)]);
+		}
+	});
+
+	const filename = name.replace(/^\.\//, '');
+	const output = [`--- a/${filename}`, `+++ b/${filename}`];
+	hunks.forEach(([start, end]) => {
+		const before = lines.slice(0, start);
+		const hunk = lines.slice(start, end);
+		output.push(
+			getHunkHeader(
+				hunk,
+				before.filter(({ op }) => op !== '+').length,
+				before.filter(({ op }) => op !== '-').length
+			)
+		);
+		output.push(...hunk.map(({ op, text }) => `${op}${text}`));
+	});
+
+	return output.join('\n');
+}
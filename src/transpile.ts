@@ -0,0 +1,99 @@
+import * as TypeScript from 'typescript';
+
+import { ProjectFile, ProjectFileType } from './interfaces/project.json';
+
+/**
+ * The result of transpiling a project file
+ */
+export interface TranspileResult {
+	/**
+	 * The syntactic diagnostics of the file, formatted like those of `tsc`
+	 */
+	diagnostics: string[];
+
+	/**
+	 * The JavaScript file and its source map
+	 */
+	files: ProjectFile[];
+}
+
+/**
+ * Return the compiler options which the project files are transpiled with, which are the `compilerOptions` of the
+ * project except that each file is emitted next to its source, with a separate source map
+ * @param ts The TypeScript compiler
+ * @param compilerOptions The `compilerOptions` of the `tsconfig.json` of the project
+ */
+export function getTranspileOptions(ts: typeof TypeScript, compilerOptions: object = {}): TypeScript.CompilerOptions {
+	const { options } = ts.convertCompilerOptionsFromJson(compilerOptions, '/');
+	return {
+		...options,
+		declaration: false,
+		inlineSourceMap: false,
+		noEmit: false,
+		out: undefined,
+		outDir: undefined,
+		outFile: undefined,
+		sourceMap: true
+	};
+}
+
+/**
+ * Return `true` if a project file is a TypeScript source which is transpiled, rather than a declaration file
+ * @param file The project file
+ */
+export function isTranspilable({ name, type }: ProjectFile) {
+	return type === ProjectFileType.TypeScript && !/\.d\.ts$/.test(name);
+}
+
+/**
+ * Return `true` if a project file is the JavaScript file or source map which a TypeScript source was transpiled to
+ * @param file The project file
+ */
+export function isTranspiledFile({ type }: ProjectFile) {
+	return type === ProjectFileType.JavaScript || type === ProjectFileType.SourceMap;
+}
+
+/**
+ * Return the names of the JavaScript file and the source map which a TypeScript source is transpiled to
+ * @param ts The TypeScript compiler
+ * @param name The name of the TypeScript source
+ * @param options The compiler options the source is transpiled with
+ */
+export function getTranspiledNames(ts: typeof TypeScript, name: string, options: TypeScript.CompilerOptions) {
+	const ext = /\.tsx$/.test(name) && options.jsx === ts.JsxEmit.Preserve ? '.jsx' : '.js';
+	const js = name.replace(/\.tsx?$/, ext);
+	return [js, `${js}.map`];
+}
+
+/**
+ * Transpile a TypeScript project file on its own, without type checking it, returning the JavaScript file and source
+ * map and any syntactic diagnostics
+ * @param ts The TypeScript compiler
+ * @param file The TypeScript project file
+ * @param options The compiler options to transpile the file with
+ */
+export function transpileFile(
+	ts: typeof TypeScript,
+	{ name, text }: ProjectFile,
+	options: TypeScript.CompilerOptions
+): TranspileResult {
+	const [js, map] = getTranspiledNames(ts, name, options);
+	const { diagnostics = [], outputText, sourceMapText = '' } = ts.transpileModule(text, {
+		compilerOptions: options,
+		fileName: name,
+		reportDiagnostics: true
+	});
+	const host: TypeScript.FormatDiagnosticsHost = {
+		getCanonicalFileName: (filename) => filename,
+		getCurrentDirectory: () => '/',
+		getNewLine: () => '\n'
+	};
+
+	return {
+		diagnostics: diagnostics.map((diagnostic) => ts.formatDiagnostics([diagnostic], host).trim()),
+		files: [
+			{ name: js, text: outputText, type: ProjectFileType.JavaScript },
+			{ name: map, text: sourceMapText, type: ProjectFileType.SourceMap }
+		]
+	};
+}
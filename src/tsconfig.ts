@@ -0,0 +1,225 @@
+import { bold } from 'chalk';
+import { dirname, isAbsolute, join, normalize, relative, resolve } from 'path';
+
+import { ExportContext } from './context';
+import { UnresolvablePackageError } from './errors';
+import { JsonSchemaForTheTypeScriptCompilersConfigurationFile as TsconfigJson } from './interfaces/tsconfig.json';
+import { parseJsonc } from './json';
+import { indent } from './log';
+import { getFile, getGlob, requireResolve } from './util';
+
+/**
+ * The `compilerOptions` which are paths relative to the configuration file they are defined in
+ */
+const PATH_OPTIONS = ['baseUrl', 'declarationDir', 'outDir', 'outFile', 'rootDir'];
+
+/**
+ * The `compilerOptions` which are lists of paths relative to the configuration file they are defined in
+ */
+const PATH_LIST_OPTIONS = ['rootDirs', 'typeRoots'];
+
+/**
+ * The top level properties which are lists of paths relative to the configuration file they are defined in
+ */
+const PATH_LIST_PROPERTIES = ['exclude', 'files', 'include'];
+
+/**
+ * The package folders, which the TypeScript compiler never matches with wildcards, whatever the `exclude` of the
+ * configuration, unless an `include` pattern names them
+ */
+const PACKAGE_FOLDERS = ['node_modules', 'bower_components', 'jspm_packages'];
+
+/**
+ * The paths the TypeScript compiler excludes when a configuration does not specify `exclude`
+ */
+const DEFAULT_EXCLUDE = PACKAGE_FOLDERS;
+
+/**
+ * The patterns the TypeScript compiler includes when a configuration specifies neither `files` nor `include`
+ */
+const DEFAULT_INCLUDE = ['**/*'];
+
+/**
+ * The files the default `include` never matches: the bundles exported to the project root, which is the default output
+ * path, and the lockfiles of the package managers
+ */
+const DEFAULT_INCLUDE_IGNORE = [
+	'**/*.{environment,project}.{json,json.gz,zip}',
+	'**/npm-shrinkwrap.json',
+	'**/package-lock.json',
+	'**/yarn.lock'
+];
+
+/**
+ * Resolve the filename, relative to the project root, of a configuration referenced by `extends`
+ * @param root The root directory of the project
+ * @param filename The filename of the configuration which is extending
+ * @param base The value of `extends`
+ */
+function resolveExtends(root: string, filename: string, base: string) {
+	if (isAbsolute(base) || /^\.\.?([\/\\]|$)/.test(base)) {
+		const basename = relative(root, resolve(root, dirname(filename), base));
+		return /\.json$/.test(basename) ? basename : `${basename}.json`;
+	}
+
+	const candidates = /\.json$/.test(base) ? [base] : [`${base}.json`, join(base, 'tsconfig.json')];
+	for (const candidate of candidates) {
+		try {
+			return relative(root, requireResolve(root, candidate));
+		} catch (e) {
+			/* try the next candidate */
+		}
+	}
+	throw new UnresolvablePackageError(base, `Unable to resolve "${base}" extended by "${filename}".`);
+}
+
+/**
+ * Rewrite the paths in a configuration so they are relative to a different directory
+ * @param config The configuration to rebase
+ * @param from The directory the paths are currently relative to
+ * @param to The directory the paths should be relative to
+ */
+function rebaseConfig(config: TsconfigJson, from: string, to: string): TsconfigJson {
+	if (relative(from, to) === '') {
+		return config;
+	}
+
+	const rebasePath = (path: string) => (isAbsolute(path) ? path : relative(to, join(from, path)) || '.');
+	const rebased: TsconfigJson = { ...config };
+	const compilerOptions: { [option: string]: any } = { ...config.compilerOptions };
+
+	PATH_LIST_PROPERTIES.filter((property) => Array.isArray(rebased[property])).forEach((property) => {
+		rebased[property] = rebased[property].map(rebasePath);
+	});
+	PATH_OPTIONS.filter((option) => typeof compilerOptions[option] === 'string').forEach((option) => {
+		compilerOptions[option] = rebasePath(compilerOptions[option]);
+	});
+	PATH_LIST_OPTIONS.filter((option) => Array.isArray(compilerOptions[option])).forEach((option) => {
+		compilerOptions[option] = compilerOptions[option].map(rebasePath);
+	});
+	if (config.compilerOptions) {
+		rebased.compilerOptions = compilerOptions;
+	}
+
+	return rebased;
+}
+
+/**
+ * An async function which reads a `tsconfig.json` and resolves to the configuration merged with any configurations
+ * it `extends`.  Paths inherited from a base configuration are rewritten relative to the extending configuration.
+ * @param context The state of the export
+ * @param root The root directory of the project, which filenames are relative to
+ * @param filename The filename of the configuration to read
+ * @param parents The filenames of the configurations which extend this configuration
+ */
+export async function readTsconfig(
+	context: ExportContext,
+	root: string,
+	filename: string,
+	parents: string[] = []
+): Promise<TsconfigJson> {
+	if (parents.indexOf(filename) !== -1) {
+		throw new Error(`Circular "extends" detected in "${[...parents, filename].join('" -> "')}".`);
+	}
+
+	context.verbose(indent(parents.length + 1), bold.blue('reading'), ` "${filename}"`);
+	const config: TsconfigJson = parseJsonc(await getFile(join(root, filename), context), filename);
+	if (!config.extends) {
+		return config;
+	}
+
+	const baseFilename = resolveExtends(root, filename, config.extends);
+	const baseConfig = await readTsconfig(context, root, baseFilename, [...parents, filename]);
+	const base = rebaseConfig(baseConfig, dirname(baseFilename), dirname(filename));
+	const tsconfig: TsconfigJson = { ...base, ...config };
+	delete tsconfig.extends;
+	if (base.compilerOptions || config.compilerOptions) {
+		tsconfig.compilerOptions = { ...base.compilerOptions, ...config.compilerOptions };
+	}
+
+	return tsconfig;
+}
+
+/**
+ * Convert a `tsconfig.json` `include` pattern into a glob which matches the supplied file extensions.  Like the
+ * TypeScript compiler, a pattern without a file extension in its last segment is treated as a directory.
+ * @param pattern The `include` pattern
+ * @param extensions A comma deliminated string of file extensions to match
+ */
+function getIncludeGlob(pattern: string, extensions: string) {
+	const extension = extensions.indexOf(',') === -1 ? `.${extensions}` : `.{${extensions}}`;
+
+	if (/(\.d)?\.ts$/.test(pattern)) {
+		return pattern.replace(/(\.d)?\.ts$/, extension);
+	}
+	if (/(^|[\/\\])\*\*$/.test(pattern)) {
+		return `${pattern}/*${extension}`;
+	}
+	if (/\*$/.test(pattern)) {
+		return `${pattern}${extension}`;
+	}
+	if (!/\.[^\/\\]*$/.test(pattern)) {
+		return `${pattern.replace(/[\/\\]$/, '')}/**/*${extension}`;
+	}
+	return pattern;
+}
+
+/**
+ * Convert the `tsconfig.json` `exclude` patterns into glob ignore patterns, which exclude matching files and
+ * everything contained in matching directories.  The package folders are excluded as well, unless one of the
+ * `include` patterns names them.
+ * @param tsconfig The project configuration
+ */
+function getExcludeGlobs({ compilerOptions = {}, exclude, include = [] }: TsconfigJson) {
+	const packageFolders = PACKAGE_FOLDERS.filter(
+		(folder) => !include.some((pattern) => pattern.split(/[\/\\]/).indexOf(folder) !== -1)
+	);
+	const patterns = exclude
+		? [...exclude, ...packageFolders]
+		: compilerOptions.outDir ? [...DEFAULT_EXCLUDE, compilerOptions.outDir] : DEFAULT_EXCLUDE;
+
+	return patterns
+		.map((pattern) => pattern.replace(/^\.[\/\\]/, '').replace(/[\/\\]$/, ''))
+		.reduce(
+			(globs: string[], pattern) => [...globs, pattern, `${pattern}/**`, `./${pattern}`, `./${pattern}/**`],
+			[]
+		);
+}
+
+/**
+ * Return the glob patterns which match the files a `tsconfig.json` includes by its `include` patterns, and the glob
+ * patterns of the files it excludes.  The default `include` does not match exported bundles or lockfiles.
+ * @param tsconfig The project configuration
+ * @param extensions A comma deliminated string of file extensions to match with `include` patterns
+ */
+export function getIncludeGlobs(tsconfig: TsconfigJson, extensions: string) {
+	const include = tsconfig.include || (tsconfig.files ? [] : DEFAULT_INCLUDE);
+	const ignore = getExcludeGlobs(tsconfig);
+	return {
+		ignore: tsconfig.include || tsconfig.files ? ignore : [...ignore, ...DEFAULT_INCLUDE_IGNORE],
+		patterns: include.map((pattern) => getIncludeGlob(pattern, extensions))
+	};
+}
+
+/**
+ * An async function which resolves to the filenames a `tsconfig.json` includes in a compilation, following the same
+ * `files`, `include` and `exclude` semantics as the TypeScript compiler.
+ * @param root The root directory of the project, which the filenames are relative to
+ * @param tsconfig The project configuration
+ * @param extensions A comma deliminated string of file extensions to match with `include` patterns
+ */
+export async function getIncludedFiles(root: string, tsconfig: TsconfigJson, extensions: string) {
+	const { files = [] } = tsconfig;
+	const { ignore, patterns } = getIncludeGlobs(tsconfig, extensions);
+	const globs = await Promise.all(patterns.map((pattern) => getGlob(pattern, ignore, root)));
+
+	const seen = new Set<string>();
+	return (<string[]>[]).concat(files, ...globs).filter((name) => {
+		const filename = normalize(name);
+		if (seen.has(filename)) {
+			return false;
+		}
+		seen.add(filename);
+		return true;
+	});
+}
@@ -0,0 +1,147 @@
+import { bold } from 'chalk';
+import { dirname, extname, isAbsolute, join, relative, resolve } from 'path';
+
+import { ExportContext } from './context';
+import { JsonSchemaForTheTsLintConfigurationFiles as TslintJson } from './interfaces/tslint.json';
+import { parseJsonc } from './json';
+import { indent } from './log';
+import { getFile, requireResolve } from './util';
+
+/**
+ * The location of the configurations which are built in to `tslint` (e.g. `tslint:recommended`)
+ */
+const BUILTIN_CONFIGS = 'tslint/lib/configs';
+
+/**
+ * Matches the references which are paths rather than module names, the same way as `tslint`
+ */
+const PATH_REFERENCE = /^(?:\.?\.?(?:[\/\\]|$)|node_modules[\/\\])/;
+
+/**
+ * Normalize a property which can either be a single value or a list of values to a list
+ * @param value The value to normalize
+ */
+function toArray<T>(value: T | T[] | undefined): T[] {
+	return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Resolve the filename, relative to the project root, of a configuration referenced by `extends`.  Paths are relative
+ * to the configuration which is extending, and packages are resolved from its directory.
+ * @param root The root directory of the project
+ * @param filename The filename of the configuration which is extending
+ * @param base The `extends` reference, a path, package name or built in configuration
+ */
+function resolveExtends(root: string, filename: string, base: string) {
+	const directory = resolve(root, dirname(filename));
+	if (isAbsolute(base) || /^\.\.?([\/\\]|$)/.test(base)) {
+		const basename = relative(root, resolve(directory, base));
+		return /\.js(on)?$/.test(basename) ? basename : `${basename}.json`;
+	}
+
+	const builtin = /^tslint:(.+)$/.exec(base);
+	return relative(root, requireResolve(directory, builtin ? `${BUILTIN_CONFIGS}/${builtin[1]}` : base));
+}
+
+/**
+ * Resolve a `rules` directory, relative to the project root unless it is absolute, the same way as `tslint`.  A module
+ * name resolves to the directory of the module, otherwise the directory is relative to the configuration which
+ * declares it.
+ * @param root The root directory of the project
+ * @param filename The filename of the configuration which declares the directory
+ * @param path The `rulesDirectory` entry
+ */
+function resolveRulesDirectory(root: string, filename: string, path: string) {
+	if (isAbsolute(path)) {
+		return path;
+	}
+	const directory = dirname(filename);
+	if (!PATH_REFERENCE.test(path)) {
+		try {
+			return relative(root, dirname(requireResolve(resolve(root, directory), path)));
+		} catch (e) {
+			/* not a module, so it is a path */
+		}
+	}
+	return join(directory, path);
+}
+
+/**
+ * An async function which loads a configuration, which is either a JSON file or a JavaScript module
+ * @param context The state of the export
+ * @param root The root directory of the project
+ * @param filename The filename of the configuration, relative to the project root
+ */
+async function loadConfig(context: ExportContext, root: string, filename: string): Promise<TslintJson> {
+	if (extname(filename) === '.json') {
+		return parseJsonc(await getFile(join(root, filename), context), filename);
+	}
+	const config = require(resolve(root, filename));
+	return config && config.__esModule ? config.default : config;
+}
+
+/**
+ * Merge a configuration into the configuration it extends, the same way `tslint` does
+ * @param base The configuration being extended
+ * @param config The extending configuration
+ */
+function mergeConfig(base: TslintJson, config: TslintJson): TslintJson {
+	const merged: TslintJson = { ...base, ...config };
+	delete merged.extends;
+
+	const rulesDirectory = [...toArray(base.rulesDirectory), ...toArray(config.rulesDirectory)];
+	if (rulesDirectory.length) {
+		merged.rulesDirectory = rulesDirectory;
+	}
+	if (base.rules || config.rules) {
+		merged.rules = { ...base.rules, ...config.rules };
+	}
+	if (base.jsRules || config.jsRules) {
+		merged.jsRules = { ...base.jsRules, ...config.jsRules };
+	}
+
+	return merged;
+}
+
+/**
+ * An async function which reads a `tslint.json` and resolves to the configuration merged with any shareable
+ * configurations it `extends`.  References which cannot be resolved are skipped with a warning.
+ * @param context The state of the export
+ * @param root The root directory of the project, which filenames are relative to
+ * @param filename The filename of the configuration to read
+ * @param parents The filenames of the configurations which extend this configuration
+ */
+export async function readTslint(
+	context: ExportContext,
+	root: string,
+	filename: string,
+	parents: string[] = []
+): Promise<TslintJson> {
+	if (parents.indexOf(filename) !== -1) {
+		throw new Error(`Circular "extends" detected in "${[...parents, filename].join('" -> "')}".`);
+	}
+
+	context.verbose(indent(parents.length + 1), bold.blue('reading'), ` "${filename}"`);
+	const config = await loadConfig(context, root, filename);
+
+	let base: TslintJson = {};
+	for (const reference of toArray<string>(config.extends)) {
+		let baseFilename: string;
+		try {
+			baseFilename = resolveExtends(root, filename, reference);
+		} catch (e) {
+			context.warn(`unable to resolve "${reference}" extended by "${filename}"`);
+			continue;
+		}
+		base = mergeConfig(base, await readTslint(context, root, baseFilename, [...parents, filename]));
+	}
+
+	if (!config.rulesDirectory) {
+		return mergeConfig(base, config);
+	}
+
+	const rulesDirectory = toArray<string>(config.rulesDirectory).map((path) =>
+		resolveRulesDirectory(root, filename, path)
+	);
+	return mergeConfig(base, { ...config, rulesDirectory });
+}
@@ -0,0 +1,291 @@
+import { bold } from 'chalk';
+import { access, constants, mkdir, readFile, writeFile } from 'fs';
+import * as glob from 'glob';
+import { dirname } from 'path';
+import * as resolveFrom from 'resolve-from';
+import * as TypeScript from 'typescript';
+
+import { ProjectError, UnreadableFileError, UnresolvablePackageError } from './errors';
+import { indent, verbose } from './log';
+
+/**
+ * The number of files which are read at once by default
+ */
+export const DEFAULT_CONCURRENCY = 64;
+
+/**
+ * The error codes of the errors reading a file which are transient, such as running out of file descriptors, so the
+ * read is retried
+ */
+const RETRY_CODES = ['EAGAIN', 'EBUSY', 'EMFILE', 'ENFILE'];
+
+/**
+ * The number of times a read which failed with a transient error is retried
+ */
+const RETRIES = 3;
+
+/**
+ * The time, in milliseconds, to wait before the first retry, which doubles for each further retry
+ */
+const RETRY_DELAY = 100;
+
+/**
+ * The files which are being read, and waiting to be read, under a limit on the number read at once
+ */
+export interface ReadLimit {
+	/**
+	 * The maximum number of files which are read at once
+	 */
+	concurrency: number;
+
+	/**
+	 * The reads which are waiting for another read to finish
+	 */
+	pending: (() => void)[];
+
+	/**
+	 * The number of files which are being read
+	 */
+	reading: number;
+}
+
+/**
+ * How files are read, so that each export has its own limit and verbose output instead of sharing them with any
+ * other export running at the same time
+ */
+export interface ReadContext {
+	/**
+	 * The limit on the number of files which are read at once
+	 */
+	limit: ReadLimit;
+
+	/**
+	 * Log a message if verbose messages are desired
+	 */
+	verbose(...text: any[]): void;
+}
+
+/**
+ * Resolve the filename of a module, as `require` would from a file in the supplied directory
+ */
+export let requireResolve = resolveFrom;
+
+/**
+ * Load the TypeScript compiler of a project, throwing an `UnresolvablePackageError` if it is not installed
+ * @param root The root directory of the project
+ */
+export function requireTypeScript(root: string): typeof TypeScript {
+	try {
+		return require(requireResolve(root, 'typescript'));
+	} catch (e) {
+		throw new UnresolvablePackageError('typescript');
+	}
+}
+
+/**
+ * An async function which resolves with an array of files which match the supplied glob pattern.
+ * @param pattern The matching pattern to glob
+ * @param ignore Glob patterns of paths to exclude from the matches
+ * @param cwd The directory to match the pattern in, which the matches are relative to
+ */
+export async function getGlob(pattern: string, ignore: string[] = [], cwd: string = '.') {
+	return new Promise<string[]>((resolve, reject) => {
+		glob(pattern, { cwd, ignore, nodir: true }, (err, matches) => {
+			if (err) {
+				reject(err);
+				return;
+			}
+			resolve(matches);
+		});
+	});
+}
+
+/**
+ * Create a limit on the number of files which are read at once, throwing a `ProjectError` if it is not a positive
+ * integer
+ * @param concurrency The maximum number of files
+ */
+export function createReadLimit(concurrency: number = DEFAULT_CONCURRENCY): ReadLimit {
+	if (!(concurrency > 0 && Math.floor(concurrency) === concurrency)) {
+		throw new ProjectError(`The concurrency must be a positive integer, not "${concurrency}".`);
+	}
+	return { concurrency, pending: [], reading: 0 };
+}
+
+/**
+ * How files are read when the caller does not supply its own context
+ */
+const DEFAULT_READ_CONTEXT: ReadContext = { limit: createReadLimit(), verbose };
+
+/**
+ * An async function which resolves once fewer than the maximum number of files are being read
+ * @param limit The limit on the number of files read at once
+ */
+async function startRead(limit: ReadLimit) {
+	if (limit.reading < limit.concurrency) {
+		limit.reading++;
+		return;
+	}
+	return new Promise<void>((resolve) => {
+		limit.pending.push(resolve);
+	});
+}
+
+/**
+ * Finish reading a file, starting the next pending read
+ * @param limit The limit on the number of files read at once
+ */
+function endRead(limit: ReadLimit) {
+	const next = limit.pending.shift();
+	if (next) {
+		next();
+	} else {
+		limit.reading--;
+	}
+}
+
+/**
+ * An async function which resolves after a delay
+ * @param ms The delay in milliseconds
+ */
+async function delay(ms: number) {
+	return new Promise<void>((resolve) => {
+		setTimeout(resolve, ms);
+	});
+}
+
+/**
+ * An async function which reads a file and resolves to its string data
+ * @param filename The filename to read
+ */
+async function readText(filename: string) {
+	return new Promise<string>((resolve, reject) => {
+		readFile(filename, 'utf8', (err, data) => {
+			if (err) {
+				reject(err);
+				return;
+			}
+			resolve(data.toString());
+		});
+	});
+}
+
+/**
+ * An async function which reads a file and resolves to its binary data
+ * @param filename The filename to read
+ */
+async function readBuffer(filename: string) {
+	return new Promise<Buffer>((resolve, reject) => {
+		readFile(filename, (err, data) => {
+			if (err) {
+				reject(err);
+				return;
+			}
+			resolve(data);
+		});
+	});
+}
+
+/**
+ * An async function which reads a file, rejecting with an `UnreadableFileError` if the file cannot be read.  No more
+ * than the concurrency limit of files are read at once, and reads which fail with a transient error, such as `EMFILE`,
+ * are retried.
+ * @param filename The filename to read
+ * @param read An async function which reads the file
+ * @param context How the file is read
+ */
+async function readWithRetries<T>(
+	filename: string,
+	read: (filename: string) => Promise<T>,
+	context: ReadContext
+): Promise<T> {
+	await startRead(context.limit);
+	try {
+		for (let attempt = 1; ; attempt++) {
+			try {
+				return await read(filename);
+			} catch (err) {
+				if (attempt > RETRIES || RETRY_CODES.indexOf(err.code) === -1) {
+					const attempts = attempt > 1 ? ` (after ${attempt} attempts)` : '';
+					throw new UnreadableFileError(filename, `${err.message}${attempts}`);
+				}
+				context.verbose(indent(2), bold.yellow('retrying'), ` "${filename}": ${err.message}`);
+				await delay(RETRY_DELAY * Math.pow(2, attempt - 1));
+			}
+		}
+	} finally {
+		endRead(context.limit);
+	}
+}
+
+/**
+ * An async function which loads a file and resolves to its string data, rejecting with an `UnreadableFileError` if the
+ * file cannot be read.  No more than the concurrency limit of files are read at once, and reads which fail with a
+ * transient error, such as `EMFILE`, are retried.
+ * @param filename The filename to get
+ * @param context How the file is read, which defaults to a limit shared by everything else which does not supply one
+ */
+export async function getFile(filename: string, context: ReadContext = DEFAULT_READ_CONTEXT) {
+	return readWithRetries(filename, readText, context);
+}
+
+/**
+ * An async function which loads a file and resolves to its binary data, the same way as `getFile`
+ * @param filename The filename to get
+ * @param context How the file is read
+ */
+export async function getFileBuffer(filename: string, context: ReadContext = DEFAULT_READ_CONTEXT) {
+	return readWithRetries(filename, readBuffer, context);
+}
+
+/**
+ * An async function that resolves to `true` if the file exists and is readable, otherwise `false`
+ * @param filename The filename to check existance of
+ */
+export async function exists(filename: string) {
+	return new Promise<boolean>((resolve) => {
+		access(filename, constants.R_OK, (err) => {
+			resolve(!err);
+		});
+	});
+}
+
+/**
+ * An async function which writes out a file
+ * @param filename The filename to write out
+ * @param contents The contents of the file
+ */
+export async function setFile(filename: string, contents: string) {
+	return new Promise<string>((resolve, reject) => {
+		writeFile(filename, contents, { encoding: 'utf8' }, (err) => {
+			if (err) {
+				reject(err);
+				return;
+			}
+			resolve(filename);
+		});
+	});
+}
+
+/**
+ * An async function which creates a directory, including any missing parent directories
+ * @param path The directory to create
+ */
+export async function ensureDir(path: string): Promise<void> {
+	if (await exists(path)) {
+		return;
+	}
+	const parent = dirname(path);
+	if (parent !== path) {
+		await ensureDir(parent);
+	}
+	return new Promise<void>((resolve, reject) => {
+		mkdir(path, (err) => {
+			if (err && err.code !== 'EEXIST') {
+				reject(err);
+				return;
+			}
+			resolve();
+		});
+	});
+}
@@ -0,0 +1,229 @@
+import { bold, underline } from 'chalk';
+
+import { InvalidBundleError, ProjectError } from './errors';
+import { readBundle } from './formats';
+import { getFileHash, getHeaderHash, SCHEMA_VERSION } from './header';
+import { ProjectFileType } from './interfaces/project.json';
+import { indent, log, setVerbose, verbose } from './log';
+
+/**
+ * The valid types of a project file
+ */
+const FILE_TYPES = [
+	ProjectFileType.TypeScript,
+	ProjectFileType.Definition,
+	ProjectFileType.Lib,
+	ProjectFileType.JavaScript,
+	ProjectFileType.CSS,
+	ProjectFileType.HTML,
+	ProjectFileType.Markdown,
+	ProjectFileType.JSON,
+	ProjectFileType.XML,
+	ProjectFileType.SourceMap,
+	ProjectFileType.PlainText
+];
+
+/**
+ * The types of JSON values which are checked, and how they are described in problems
+ */
+const TYPE_NAMES = {
+	array: 'an array',
+	number: 'a number',
+	object: 'an object',
+	string: 'a string'
+};
+
+type ValueType = keyof typeof TYPE_NAMES;
+
+/**
+ * Return the type of a JSON value
+ * @param value The value
+ */
+function getType(value: any) {
+	return Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+}
+
+/**
+ * Check that a value of a bundle has a type, adding a problem if it does not
+ * @param problems The problems found in the bundle
+ * @param path The path of the value in the bundle
+ * @param value The value
+ * @param type The type the value must have
+ * @param optional The value can be missing
+ * @return `true` if the value has the type
+ */
+function checkType(problems: string[], path: string, value: any, type: ValueType, optional = false) {
+	if (getType(value) === type) {
+		return true;
+	}
+	if (value !== undefined || !optional) {
+		problems.push(`"${path}" must be ${TYPE_NAMES[type]}`);
+	}
+	return false;
+}
+
+/**
+ * Check that a value of a bundle is a map of strings, such as a map of package names to semver ranges
+ * @param problems The problems found in the bundle
+ * @param path The path of the value in the bundle
+ * @param value The value
+ */
+function checkStringMap(problems: string[], path: string, value: any) {
+	if (checkType(problems, path, value, 'object')) {
+		Object.keys(value).forEach((key) => checkType(problems, `${path}.${key}`, value[key], 'string'));
+	}
+}
+
+/**
+ * Check the dependencies of a project bundle, and the resolved dependencies if it has them
+ * @param problems The problems found in the bundle
+ * @param dependencies The dependencies of the bundle
+ */
+function checkDependencies(problems: string[], dependencies: any) {
+	if (!checkType(problems, 'dependencies', dependencies, 'object')) {
+		return;
+	}
+	checkStringMap(problems, 'dependencies.production', dependencies.production);
+	checkStringMap(problems, 'dependencies.development', dependencies.development);
+	if (!checkType(problems, 'dependencies.resolved', dependencies.resolved, 'object', true)) {
+		return;
+	}
+
+	['production', 'development'].forEach((group) => {
+		const path = `dependencies.resolved.${group}`;
+		if (!checkType(problems, path, dependencies.resolved[group], 'array')) {
+			return;
+		}
+		dependencies.resolved[group].forEach((dependency: any, i: number) => {
+			if (!checkType(problems, `${path}[${i}]`, dependency, 'object')) {
+				return;
+			}
+			checkType(problems, `${path}[${i}].name`, dependency.name, 'string');
+			checkType(problems, `${path}[${i}].range`, dependency.range, 'string');
+			if (checkType(problems, `${path}[${i}].path`, dependency.path, 'array')) {
+				dependency.path.forEach((name: any, j: number) =>
+					checkType(problems, `${path}[${i}].path[${j}]`, name, 'string')
+				);
+			}
+			['integrity', 'resolved', 'version'].forEach((key) =>
+				checkType(problems, `${path}[${i}].${key}`, dependency[key], 'string', true)
+			);
+		});
+	});
+}
+
+/**
+ * Check a list of project files, which must have valid types, unique names and, if they have content hashes, hashes
+ * which match their text
+ * @param problems The problems found in the bundle
+ * @param path The path of the list in the bundle
+ * @param files The files
+ */
+function checkFiles(problems: string[], path: string, files: any) {
+	if (!checkType(problems, path, files, 'array')) {
+		return;
+	}
+	const names = new Set<string>();
+	files.forEach((file: any, i: number) => {
+		if (!checkType(problems, `${path}[${i}]`, file, 'object')) {
+			return;
+		}
+		const { hash, name, text, type } = file;
+		if (checkType(problems, `${path}[${i}].name`, name, 'string')) {
+			if (names.has(name)) {
+				problems.push(`"${path}" contains "${name}" more than once`);
+			}
+			names.add(name);
+		}
+		const hasText = checkType(problems, `${path}[${i}].text`, text, 'string');
+		if (FILE_TYPES.indexOf(type) === -1) {
+			problems.push(`"${path}[${i}].type" must be a ProjectFileType, not ${JSON.stringify(type)}`);
+		}
+		if (checkType(problems, `${path}[${i}].hash`, hash, 'string', true) && hasText && hash !== getFileHash(text)) {
+			problems.push(`"${path}[${i}].hash" does not match the text of "${name}"`);
+		}
+	});
+}
+
+/**
+ * Check the header of a project bundle, including that its hash matches the bundle if the rest of the bundle is valid
+ * @param problems The problems found in the bundle
+ * @param bundle The bundle
+ */
+function checkHeader(problems: string[], bundle: any) {
+	const { header } = bundle;
+	if (!checkType(problems, 'header', header, 'object', true)) {
+		return;
+	}
+	const valid = problems.length === 0;
+	checkType(problems, 'header.exporter', header.exporter, 'string');
+	checkType(problems, 'header.hash', header.hash, 'string');
+	checkType(problems, 'header.commit', header.commit, 'string', true);
+	if (checkType(problems, 'header.created', header.created, 'string', true) && isNaN(Date.parse(header.created))) {
+		problems.push(`"header.created" must be a timestamp`);
+	}
+	if (checkType(problems, 'header.schema', header.schema, 'number') && header.schema > SCHEMA_VERSION) {
+		problems.push(`"header.schema" ${header.schema} is newer than the supported version ${SCHEMA_VERSION}`);
+	}
+	if (valid && problems.length === 0 && header.hash !== getHeaderHash(bundle)) {
+		problems.push(`"header.hash" does not match the bundle`);
+	}
+}
+
+/**
+ * Check that a parsed bundle matches the format of a project bundle, returning the problems found in it.  The index
+ * must be one of the files, every file must have a valid `ProjectFileType` and no file may be listed twice.
+ * @param bundle The parsed bundle
+ */
+export function validateProjectJson(bundle: any): string[] {
+	const problems: string[] = [];
+	if (!checkType(problems, 'bundle', bundle, 'object')) {
+		return problems;
+	}
+
+	checkDependencies(problems, bundle.dependencies);
+	checkType(problems, 'dojorc', bundle.dojorc, 'object', true);
+	checkType(problems, 'environment', bundle.environment, 'string', true);
+	checkFiles(problems, 'environmentFiles', bundle.environmentFiles);
+	checkFiles(problems, 'files', bundle.files);
+	if (
+		checkType(problems, 'index', bundle.index, 'string') &&
+		Array.isArray(bundle.files) &&
+		!bundle.files.some((file: any) => file && file.name === bundle.index)
+	) {
+		problems.push(`"index" "${bundle.index}" is not one of the "files"`);
+	}
+	checkType(problems, 'package', bundle.package, 'object');
+	checkType(problems, 'tsconfig', bundle.tsconfig, 'object');
+	checkType(problems, 'tslint', bundle.tslint, 'object', true);
+	checkHeader(problems, bundle);
+
+	return problems;
+}
+
+/**
+ * An async function which resolves when a project bundle has been validated.  If the bundle cannot be read or is not
+ * a valid project bundle, it rejects with a `ProjectError`, which for an invalid bundle is an `InvalidBundleError`
+ * listing the problems found in it.
+ * @param filename The filename of the bundle, which can be in any of the formats
+ * @param verboseFlag Log verbose output while validating the bundle
+ */
+export default async function validateProject(filename: string, verboseFlag = false) {
+	setVerbose(verboseFlag);
+
+	log(underline('\nValidate project bundle'));
+
+	try {
+		verbose(indent(), bold.blue('reading'), ` "${filename}"`);
+		const problems = validateProjectJson(await readBundle(filename));
+		if (problems.length) {
+			problems.forEach((problem) => log(indent(), bold.red('invalid'), ' ', problem));
+			throw new InvalidBundleError(filename, problems);
+		}
+
+		log(indent(), bold.green('validated'), ` "${filename}"\n`);
+	} catch (e) {
+		verbose(indent(), bold.red('errored'), ' ', e.stack, '\n');
+		throw e instanceof ProjectError ? e : new ProjectError(e.message);
+	}
+}
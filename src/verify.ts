@@ -0,0 +1,132 @@
+import { bold } from 'chalk';
+import { dirname, join, posix } from 'path';
+import * as TypeScript from 'typescript';
+
+import { ProjectError, TypeCheckError } from './errors';
+import { ProjectFile, ProjectFileType, ProjectJson } from './interfaces/project.json';
+import { indent, log, verbose } from './log';
+import { requireTypeScript } from './util';
+
+/**
+ * The directory of the virtual file system which the lib files of the bundle are in
+ */
+const LIB_LOCATION = '/node_modules/typescript/lib';
+
+/**
+ * Matches the filenames of TypeScript sources and declarations
+ */
+const TYPESCRIPT_FILE = /\.tsx?$/;
+
+/**
+ * Return the filename of a file of a bundle in the virtual file system, where the project root is `/`, so that the
+ * environment files are resolvable from the project files the same way as when the bundle is imported
+ * @param file The file
+ * @param environment The file is one of the environment files
+ */
+function getVirtualFilename({ name, type }: ProjectFile, environment: boolean) {
+	if (type === ProjectFileType.Lib) {
+		return posix.join(LIB_LOCATION, name);
+	}
+	const filename = posix.join('/', name.replace(/\\/g, '/'));
+	return environment && filename.split('/')[1] !== 'node_modules' ? posix.join('/node_modules', filename) : filename;
+}
+
+/**
+ * Create a compiler host which reads the files of a bundle from a virtual file system.  The lib files are part of the
+ * compiler rather than of the project, so a lib file which the bundle does not contain, such as the default lib of
+ * its `target`, is read from the lib directory of the compiler instead.
+ * @param ts The TypeScript compiler
+ * @param files The text of the files of the bundle by their virtual filenames
+ * @param libDirectory The directory of the lib files of the compiler
+ */
+function createCompilerHost(
+	ts: typeof TypeScript,
+	files: Map<string, string>,
+	libDirectory: string
+): TypeScript.CompilerHost {
+	const filenames = [...files.keys()];
+	const readFile = (filename: string) => {
+		if (!files.has(filename) && posix.dirname(filename) === LIB_LOCATION) {
+			const text = ts.sys.readFile(join(libDirectory, posix.basename(filename)));
+			if (text !== undefined) {
+				files.set(filename, text);
+			}
+		}
+		return files.get(filename);
+	};
+
+	return {
+		directoryExists: (path) => filenames.some((filename) => filename.startsWith(posix.join(path, '/'))),
+		fileExists: (filename) => readFile(filename) !== undefined,
+		getCanonicalFileName: (filename) => filename,
+		getCurrentDirectory: () => '/',
+		getDefaultLibFileName: (options) => posix.join(LIB_LOCATION, ts.getDefaultLibFileName(options)),
+		getDefaultLibLocation: () => LIB_LOCATION,
+		getDirectories(path) {
+			const prefix = posix.join(path, '/');
+			const directories = new Set<string>();
+			filenames.filter((filename) => filename.startsWith(prefix)).forEach((filename) => {
+				const parts = filename.slice(prefix.length).split('/');
+				if (parts.length > 1) {
+					directories.add(parts[0]);
+				}
+			});
+			return [...directories];
+		},
+		getNewLine: () => '\n',
+		getSourceFile(filename, languageVersion) {
+			const text = readFile(filename);
+			return text === undefined ? undefined : ts.createSourceFile(filename, text, languageVersion);
+		},
+		readFile,
+		useCaseSensitiveFileNames: () => true,
+		writeFile() {}
+	};
+}
+
+/**
+ * Type check a project bundle in isolation, returning the diagnostics of the compiler.  Only the `files` and
+ * `environmentFiles` of the bundle, and the lib files of the compiler, are visible to the compiler, so any diagnostics
+ * show that the bundle is not self-contained, such as a module whose typings are missing.
+ * @param ts The TypeScript compiler
+ * @param project The project bundle
+ */
+export function getBundleDiagnostics(ts: typeof TypeScript, project: ProjectJson): string[] {
+	const files = new Map<string, string>();
+	project.environmentFiles.forEach((file) => files.set(getVirtualFilename(file, true), file.text));
+	project.files.forEach((file) => files.set(getVirtualFilename(file, false), file.text));
+
+	const { errors, options } = ts.convertCompilerOptionsFromJson(project.tsconfig.compilerOptions || {}, '/');
+	const host = createCompilerHost(ts, files, dirname(ts.getDefaultLibFilePath(options)));
+	const rootNames = project.files
+		.filter(({ name }) => TYPESCRIPT_FILE.test(name))
+		.map((file) => getVirtualFilename(file, false));
+	const program = ts.createProgram(rootNames, { ...options, noEmit: true }, host);
+
+	return [...errors, ...ts.getPreEmitDiagnostics(program)].map((diagnostic) =>
+		ts.formatDiagnostics([diagnostic], host).trim()
+	);
+}
+
+/**
+ * An async function which resolves when a project bundle has been type checked in isolation, with the TypeScript
+ * compiler of the project.  If the compiler reports any diagnostics, they are logged and it rejects with a
+ * `TypeCheckError`.
+ * @param root The root directory of the project
+ * @param project The project bundle
+ */
+export default async function verifyProject(root: string, project: ProjectJson) {
+	const ts = requireTypeScript(root);
+
+	try {
+		verbose(indent(), bold.blue('verifying'), ` bundle with TypeScript ${ts.version}`);
+		const diagnostics = getBundleDiagnostics(ts, project);
+		if (diagnostics.length) {
+			diagnostics.forEach((diagnostic) => log(indent(), bold.red('error'), ' ', diagnostic));
+			throw new TypeCheckError(diagnostics);
+		}
+		log(indent(), bold.green('verified'), ' bundle type checks in isolation\n');
+	} catch (e) {
+		throw e instanceof ProjectError ? e : new ProjectError(`Unable to verify bundle: ${e.message}`);
+	}
+}
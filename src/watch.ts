@@ -0,0 +1,93 @@
+import { bold } from 'chalk';
+import * as chokidar from 'chokidar';
+
+import { ProjectJson } from './interfaces/project.json';
+import { indent, log } from './log';
+import { getIncludeGlobs } from './tsconfig';
+
+/**
+ * A watcher of the files of a project
+ */
+export interface ProjectWatcher {
+	/**
+	 * Stop watching the project
+	 */
+	close(): void;
+}
+
+/**
+ * The configuration files which are watched, in addition to the files the project includes
+ */
+const CONFIG_FILES = ['.dojorc', 'package.json', 'tsconfig.json'];
+
+/**
+ * The time, in milliseconds, to wait for further changes before handling the changes to the project
+ */
+const DEBOUNCE_DELAY = 100;
+
+/**
+ * Watch the files a project includes and its configuration files.  Changes are batched, and handled one batch at a
+ * time, so the handler is never called while it is still handling the previous changes.  When the `tsconfig.json`
+ * changes, the files the updated project includes are watched instead.
+ * @param root The root directory of the project
+ * @param project The project bundle
+ * @param extensions A comma deliminated string of extensions of files to include in the project files
+ * @param onChange An async function which handles the changed files, relative to the root, resolving to the updated
+ * project bundle
+ */
+export function watchProject(
+	root: string,
+	project: ProjectJson,
+	extensions: string,
+	onChange: (changed: string[]) => Promise<ProjectJson>
+): ProjectWatcher {
+	const changed = new Set<string>();
+	let handling = Promise.resolve();
+	let timer: NodeJS.Timer | undefined;
+
+	const handleChanges = async () => {
+		const names = [...changed];
+		changed.clear();
+		if (!names.length) {
+			return;
+		}
+		log(indent(), bold.blue('changed'), ` "${names.join('", "')}"`);
+		try {
+			project = await onChange(names);
+			if (names.indexOf('tsconfig.json') !== -1) {
+				watcher.close();
+				watcher = createWatcher();
+			}
+		} catch (e) {
+			log(indent(), bold.red('errored'), ' ', e.message, '\n');
+		}
+	};
+
+	const createWatcher = () => {
+		const { files = [] } = project.tsconfig;
+		const { ignore, patterns } = getIncludeGlobs(project.tsconfig, extensions);
+		return chokidar
+			.watch([...CONFIG_FILES, ...files, ...patterns], { cwd: root, ignored: ignore, ignoreInitial: true })
+			.on('all', (event: string, name: string) => {
+				changed.add(name);
+				if (timer) {
+					clearTimeout(timer);
+				}
+				timer = setTimeout(() => {
+					timer = undefined;
+					handling = handling.then(handleChanges);
+				}, DEBOUNCE_DELAY);
+			});
+	};
+
+	let watcher = createWatcher();
+
+	return {
+		close() {
+			if (timer) {
+				clearTimeout(timer);
+			}
+			watcher.close();
+		}
+	};
+}
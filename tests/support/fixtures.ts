@@ -0,0 +1,46 @@
+import { lstatSync, mkdirSync, mkdtempSync, readdirSync, rmdirSync, unlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+
+/**
+ * Create a temporary directory which contains the supplied files, returning its path
+ * @param files The text of the files by their paths relative to the directory
+ */
+export function createFixture(files: { [filename: string]: string } = {}) {
+	const root = mkdtempSync(join(tmpdir(), 'export-project-'));
+	Object.keys(files).forEach((name) => {
+		const filename = join(root, name);
+		createDirectory(dirname(filename));
+		writeFileSync(filename, files[name]);
+	});
+	return root;
+}
+
+/**
+ * Create a directory and any of its parent directories which do not exist
+ * @param path The directory
+ */
+export function createDirectory(path: string) {
+	try {
+		mkdirSync(path);
+	} catch (e) {
+		if (e.code === 'ENOENT') {
+			createDirectory(dirname(path));
+			mkdirSync(path);
+		} else if (e.code !== 'EEXIST') {
+			throw e;
+		}
+	}
+}
+
+/**
+ * Remove a directory and everything in it, without following symbolic links
+ * @param path The directory
+ */
+export function removeFixture(path: string) {
+	readdirSync(path).forEach((name) => {
+		const filename = join(path, name);
+		lstatSync(filename).isDirectory() ? removeFixture(filename) : unlinkSync(filename);
+	});
+	rmdirSync(path);
+}
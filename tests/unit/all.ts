@@ -1,3 +1,22 @@
+import './cache';
+import './context';
+import './definitions';
+import './diffProject';
+import './environment';
+import './errors';
 import './exportProject';
+import './formats';
+import './header';
+import './importProject';
+import './json';
+import './lockfile';
 import './main';
+import './textDiff';
+import './transpile';
+import './tsconfig';
+import './tslint';
+import './util';
+import './validate';
+import './verify';
+import './watch';
 import './log';
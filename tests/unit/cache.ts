@@ -0,0 +1,190 @@
+const { registerSuite } = intern.getInterface('object');
+const { assert } = intern.getPlugin('chai');
+
+import { stub, SinonStub } from 'sinon';
+
+import * as fs from 'fs';
+import { join, resolve } from 'path';
+
+import { closeCache, getCacheFilename, getCachedFile, openCache } from '../../src/cache';
+import { createContext, ExportContext } from '../../src/context';
+
+let context: ExportContext;
+let accessStub: SinonStub;
+let readFileStub: SinonStub;
+let statStub: SinonStub;
+let writeFileStub: SinonStub;
+let fileMap: { [filename: string]: string };
+let statMap: { [filename: string]: { mtime: Date; size: number } };
+
+const cacheFilename = getCacheFilename('cache', '.');
+
+/**
+ * Store a cache file containing the supplied files
+ * @param files The cached files, keyed by their relative filenames
+ * @param version The version of the cache format
+ */
+function setCache(files: { [filename: string]: { mtime: number; size: number; text: string } }, version = 1) {
+	const resolved: typeof files = {};
+	Object.keys(files).forEach((filename) => {
+		resolved[resolve(filename)] = files[filename];
+	});
+	fileMap[cacheFilename] = JSON.stringify({ files: resolved, version });
+}
+
+/**
+ * Return the files which were stored in the cache file
+ */
+function getStoredFiles() {
+	assert.isTrue(writeFileStub.calledOnce, 'should have stored the cache');
+	assert.strictEqual(writeFileStub.lastCall.args[0], cacheFilename);
+	return JSON.parse(writeFileStub.lastCall.args[1]).files;
+}
+
+registerSuite('cache', {
+	beforeEach() {
+		context = createContext();
+		fileMap = {
+			'a.d.ts': 'a',
+			'b.d.ts': 'b'
+		};
+		statMap = {
+			'a.d.ts': { mtime: new Date(1000), size: 1 },
+			'b.d.ts': { mtime: new Date(2000), size: 1 }
+		};
+
+		accessStub = stub(fs, 'access', (name: string, mode: number, callback: (err?: any) => void) => {
+			callback(name in fileMap || name === 'cache' ? undefined : new Error('file not found'));
+		});
+		readFileStub = stub(fs, 'readFile', (name: string, encoding: string, callback: Function) => {
+			if (name in fileMap) {
+				callback(undefined, fileMap[name]);
+			} else {
+				callback(new Error('file not found'));
+			}
+		});
+		statStub = stub(fs, 'stat', (name: string, callback: Function) => {
+			if (name in statMap) {
+				callback(undefined, statMap[name]);
+			} else {
+				callback(new Error('file not found'));
+			}
+		});
+		writeFileStub = stub(fs, 'writeFile', (name: string, data: string, options: any, callback: Function) => {
+			callback();
+		});
+	},
+
+	async afterEach() {
+		await closeCache(context, false);
+		accessStub.restore();
+		readFileStub.restore();
+		statStub.restore();
+		writeFileStub.restore();
+	},
+
+	tests: {
+		getCacheFilename() {
+			assert.strictEqual(getCacheFilename('cache', '.'), getCacheFilename('cache', resolve('.')));
+			assert.notStrictEqual(getCacheFilename('cache', 'a'), getCacheFilename('cache', 'b'));
+			assert.match(getCacheFilename('cache', '.'), /^cache[\/\\][0-9a-f]{16}\.json$/);
+		},
+
+		async 'reads files when the cache is not open'() {
+			assert.strictEqual(await getCachedFile(context, 'a.d.ts'), 'a');
+			assert.isFalse(statStub.called, 'should not have checked the file');
+		},
+
+		async 'stores the files which were read'() {
+			await openCache(context, 'cache', '.');
+			assert.strictEqual(await getCachedFile(context, 'a.d.ts'), 'a');
+			await closeCache(context);
+			assert.deepEqual(getStoredFiles(), { [resolve('a.d.ts')]: { mtime: 1000, size: 1, text: 'a' } });
+		},
+
+		async 'reuses unchanged files'() {
+			setCache({ 'a.d.ts': { mtime: 1000, size: 1, text: 'cached a' } });
+			await openCache(context, 'cache', '.');
+			readFileStub.reset();
+			assert.strictEqual(await getCachedFile(context, 'a.d.ts'), 'cached a');
+			assert.isFalse(readFileStub.called, 'should not have read the file');
+		},
+
+		async 'reads changed files'() {
+			setCache({
+				'a.d.ts': { mtime: 999, size: 1, text: 'cached a' },
+				'b.d.ts': { mtime: 2000, size: 2, text: 'cached b' }
+			});
+			await openCache(context, 'cache', '.');
+			assert.strictEqual(await getCachedFile(context, 'a.d.ts'), 'a');
+			assert.strictEqual(await getCachedFile(context, 'b.d.ts'), 'b');
+			await closeCache(context);
+			assert.deepEqual(getStoredFiles(), {
+				[resolve('a.d.ts')]: { mtime: 1000, size: 1, text: 'a' },
+				[resolve('b.d.ts')]: { mtime: 2000, size: 1, text: 'b' }
+			});
+		},
+
+		async 'drops files which were not read'() {
+			setCache({
+				'a.d.ts': { mtime: 1000, size: 1, text: 'a' },
+				'removed.d.ts': { mtime: 1000, size: 1, text: 'removed' }
+			});
+			await openCache(context, 'cache', '.');
+			await getCachedFile(context, 'a.d.ts');
+			await closeCache(context);
+			assert.deepEqual(Object.keys(getStoredFiles()), [resolve('a.d.ts')]);
+		},
+
+		async 'ignores a cache in another format'() {
+			setCache({ 'a.d.ts': { mtime: 1000, size: 1, text: 'cached a' } }, 0);
+			await openCache(context, 'cache', '.');
+			assert.strictEqual(await getCachedFile(context, 'a.d.ts'), 'a');
+		},
+
+		async 'ignores an unreadable cache'() {
+			fileMap[cacheFilename] = '{';
+			await openCache(context, 'cache', '.');
+			assert.strictEqual(await getCachedFile(context, 'a.d.ts'), 'a');
+		},
+
+		async "does not cache files which cannot be stat'ed"() {
+			fileMap['c.d.ts'] = 'c';
+			await openCache(context, 'cache', '.');
+			assert.strictEqual(await getCachedFile(context, 'c.d.ts'), 'c');
+			await closeCache(context);
+			assert.deepEqual(getStoredFiles(), {});
+		},
+
+		async 'rejects when a file cannot be read'() {
+			await openCache(context, 'cache', '.');
+			try {
+				await getCachedFile(context, join('missing', 'file.d.ts'));
+			} catch (e) {
+				assert.include(e.message, 'file.d.ts');
+				return;
+			}
+			assert.fail('should have rejected');
+		},
+
+		async 'does not store the cache when the export failed'() {
+			await openCache(context, 'cache', '.');
+			await getCachedFile(context, 'a.d.ts');
+			await closeCache(context, false);
+			assert.isFalse(writeFileStub.called);
+			assert.strictEqual(await getCachedFile(context, 'b.d.ts'), 'b');
+			assert.isFalse(statStub.calledWith('b.d.ts'), 'should have closed the cache');
+		},
+
+		async 'does not fail when the cache cannot be stored'() {
+			writeFileStub.restore();
+			writeFileStub = stub(fs, 'writeFile', (name: string, data: string, options: any, callback: Function) => {
+				callback(new Error('unable to write'));
+			});
+			await openCache(context, 'cache', '.');
+			await getCachedFile(context, 'a.d.ts');
+			await closeCache(context);
+			assert.isTrue(writeFileStub.calledOnce);
+		}
+	}
+});
@@ -0,0 +1,67 @@
+const { registerSuite } = intern.getInterface('object');
+const { assert } = intern.getPlugin('chai');
+
+import { stub, SinonStub } from 'sinon';
+
+import { createContext } from '../../src/context';
+import { ProjectError, StrictModeError } from '../../src/errors';
+
+let consoleLogStub: SinonStub;
+
+registerSuite('context', {
+	beforeEach() {
+		consoleLogStub = stub(console, 'log');
+	},
+
+	afterEach() {
+		consoleLogStub.restore();
+	},
+
+	tests: {
+		createContext: {
+			'has its own read limit'() {
+				const context = createContext({ concurrency: 2 });
+				assert.deepEqual(context.limit, { concurrency: 2, pending: [], reading: 0 });
+				assert.notStrictEqual(createContext().limit, createContext().limit);
+			},
+
+			'rejects an invalid concurrency'() {
+				assert.throws(() => createContext({ concurrency: 0 }), ProjectError, 'The concurrency must be');
+			}
+		},
+
+		verbose: {
+			'does not log by default'() {
+				createContext().verbose('Hello');
+				assert.isFalse(consoleLogStub.called);
+			},
+
+			'logs when verbose'() {
+				createContext({ verbose: true }).verbose('Hello', ' World');
+				assert.isTrue(consoleLogStub.calledOnce);
+				assert.strictEqual(consoleLogStub.lastCall.args[0], 'Hello World');
+			}
+		},
+
+		warn: {
+			'passes warnings to the callback instead of logging them'() {
+				const onWarning = stub();
+				createContext({ onWarning }).warn('a warning');
+				assert.isTrue(onWarning.calledOnce);
+				assert.deepEqual(onWarning.lastCall.args, ['a warning']);
+				assert.isFalse(consoleLogStub.called);
+			},
+
+			'ignores warnings without a callback'() {
+				createContext().warn('a warning');
+				assert.isFalse(consoleLogStub.called);
+			},
+
+			'throws in strict mode'() {
+				const onWarning = stub();
+				assert.throws(() => createContext({ onWarning, strict: true }).warn('a warning'), StrictModeError);
+				assert.isFalse(onWarning.called);
+			}
+		}
+	}
+});
@@ -0,0 +1,276 @@
+const { registerSuite } = intern.getInterface('object');
+const { assert } = intern.getPlugin('chai');
+
+import { stub, SinonStub } from 'sinon';
+
+import * as fs from 'fs';
+
+import { createContext } from '../../src/context';
+import { getReachableFiles, getReferences, resolveModule } from '../../src/definitions';
+import { ProjectFileType } from '../../src/interfaces/project.json';
+
+let accessStub: SinonStub;
+let readFileStub: SinonStub;
+let fileMap: { [filename: string]: string };
+
+const context = createContext();
+
+registerSuite('definitions', {
+	before() {
+		accessStub = stub(fs, 'access', (name: string, constants: any, callback: (err?: any) => void) => {
+			callback(name in fileMap ? undefined : new Error('file not found'));
+		});
+		readFileStub = stub(
+			fs,
+			'readFile',
+			(name: string, encoding: string, callback: (err?: any, data?: string) => void) => {
+				if (name in fileMap) {
+					callback(undefined, fileMap[name]);
+				} else {
+					callback(new Error(`file not found: ${name}`));
+				}
+			}
+		);
+	},
+
+	after() {
+		accessStub.restore();
+		readFileStub.restore();
+	},
+
+	beforeEach() {
+		fileMap = {};
+	},
+
+	tests: {
+		getReferences: {
+			'import and export statements'() {
+				const text = [
+					"import 'side-effect';",
+					"import foo from 'foo';",
+					"import * as bar from './bar';",
+					'import {',
+					'\tbaz,',
+					'\tqux as quux',
+					"} from '@dojo/core/baz';",
+					"export * from './exported';",
+					"export { a } from 'a';",
+					"import load = require('load');",
+					"const lazy = import('./lazy');",
+					"import foo2 from 'foo';"
+				].join('\n');
+				assert.deepEqual(getReferences(text).modules, [
+					'side-effect',
+					'foo',
+					'./bar',
+					'@dojo/core/baz',
+					'./exported',
+					'a',
+					'load',
+					'./lazy'
+				]);
+			},
+
+			'triple-slash references'() {
+				const text = [
+					'/// <reference path="./globals.d.ts" />',
+					"/// <reference types='node' />",
+					'/// <reference lib="es2015.promise" />',
+					'const a = 1; /// <reference path="not-a-directive.d.ts" />'
+				].join('\n');
+				assert.deepEqual(getReferences(text), {
+					libs: ['es2015.promise'],
+					modules: [],
+					paths: ['./globals.d.ts'],
+					types: ['node']
+				});
+			},
+
+			'ignores comments and strings'() {
+				const text = [
+					"// import 'commented';",
+					'/* block',
+					"import 'also-commented';",
+					'*/',
+					'const text = "import \'in-a-string\'";',
+					"const url = 'http://example.com/*';",
+					"import 'real';"
+				].join('\n');
+				assert.deepEqual(getReferences(text).modules, ['real']);
+			}
+		},
+
+		resolveModule: {
+			async 'relative modules'() {
+				fileMap['src/widgets/Button.ts'] = '';
+				fileMap['src/util/index.ts'] = '';
+				fileMap['src/globals.d.ts'] = '';
+				assert.strictEqual(
+					await resolveModule(context, '.', 'src/main.ts', './widgets/Button'),
+					'src/widgets/Button.ts'
+				);
+				assert.strictEqual(await resolveModule(context, '.', 'src/main.ts', './util'), 'src/util/index.ts');
+				assert.strictEqual(
+					await resolveModule(context, '.', 'src/widgets/Button.ts', '../globals'),
+					'src/globals.d.ts'
+				);
+				assert.isUndefined(await resolveModule(context, '.', 'src/main.ts', './missing'));
+			},
+
+			async 'packages with typings'() {
+				fileMap['node_modules/foo/package.json'] = JSON.stringify({ typings: 'dist/foo' });
+				fileMap['node_modules/foo/dist/foo.d.ts'] = '';
+				fileMap['node_modules/bar/package.json'] = JSON.stringify({ types: './lib/index.d.ts' });
+				fileMap['node_modules/bar/lib/index.d.ts'] = '';
+				assert.strictEqual(
+					await resolveModule(context, '.', 'src/main.ts', 'foo'),
+					'node_modules/foo/dist/foo.d.ts'
+				);
+				assert.strictEqual(
+					await resolveModule(context, '.', 'src/main.ts', 'bar'),
+					'node_modules/bar/lib/index.d.ts'
+				);
+			},
+
+			async 'modules within packages'() {
+				fileMap['node_modules/@dojo/core/lang.d.ts'] = '';
+				fileMap['node_modules/@dojo/core/async/index.d.ts'] = '';
+				assert.strictEqual(
+					await resolveModule(context, '.', 'src/main.ts', '@dojo/core/lang'),
+					'node_modules/@dojo/core/lang.d.ts'
+				);
+				assert.strictEqual(
+					await resolveModule(context, '.', 'src/main.ts', '@dojo/core/async'),
+					'node_modules/@dojo/core/async/index.d.ts'
+				);
+			},
+
+			async 'falls back to @types'() {
+				fileMap['node_modules/@types/chai/index.d.ts'] = '';
+				fileMap['node_modules/@types/scope__pkg/index.d.ts'] = '';
+				assert.strictEqual(
+					await resolveModule(context, '.', 'src/main.ts', 'chai'),
+					'node_modules/@types/chai/index.d.ts'
+				);
+				assert.strictEqual(
+					await resolveModule(context, '.', 'src/main.ts', '@scope/pkg'),
+					'node_modules/@types/scope__pkg/index.d.ts'
+				);
+			},
+
+			async 'prefers nested node_modules'() {
+				fileMap['node_modules/a/node_modules/b/index.d.ts'] = '';
+				fileMap['node_modules/b/index.d.ts'] = '';
+				assert.strictEqual(
+					await resolveModule(context, '.', 'node_modules/a/index.d.ts', 'b'),
+					'node_modules/a/node_modules/b/index.d.ts'
+				);
+				assert.strictEqual(await resolveModule(context, '.', 'src/main.ts', 'b'), 'node_modules/b/index.d.ts');
+			},
+
+			async 'relative to the project root'() {
+				fileMap['/var/projects/test-project/node_modules/foo/index.d.ts'] = '';
+				assert.strictEqual(
+					await resolveModule(context, '/var/projects/test-project', 'src/main.ts', 'foo'),
+					'node_modules/foo/index.d.ts'
+				);
+			}
+		},
+
+		getReachableFiles: {
+			async 'walks the import and reference graph'() {
+				Object.assign(fileMap, {
+					'src/widgets/Button.ts': "import { Base } from '@dojo/widget-core/WidgetBase';",
+					'node_modules/@dojo/widget-core/WidgetBase.d.ts':
+						"import { Evented } from '@dojo/core/Evented';\nimport { VNode } from './interfaces';",
+					'node_modules/@dojo/widget-core/interfaces.d.ts': '/// <reference path="./globals.d.ts" />',
+					'node_modules/@dojo/widget-core/globals.d.ts': '/// <reference lib="es2015.symbol" />',
+					'node_modules/@dojo/core/Evented.d.ts': "import Evented from './Evented';",
+					'node_modules/@dojo/core/unused.d.ts': '',
+					'node_modules/@types/node/index.d.ts': '',
+					'node_modules/@types/chai/index.d.ts': '',
+					'node_modules/typescript/lib/lib.es2015.symbol.d.ts': 'interface Symbol {}'
+				});
+
+				const files = await getReachableFiles(context, '.', [
+					{
+						name: 'src/main.ts',
+						text: "import Button from './widgets/Button';\nimport 'fs';",
+						type: ProjectFileType.TypeScript
+					},
+					{
+						name: 'src/widgets/Button.ts',
+						text: fileMap['src/widgets/Button.ts'],
+						type: ProjectFileType.TypeScript
+					},
+					{ name: 'src/index.html', text: "<script>import 'chai';</script>", type: ProjectFileType.HTML },
+					{ name: 'src/types.d.ts', text: '/// <reference types="node" />', type: ProjectFileType.Definition }
+				]);
+
+				assert.deepEqual(files.map(({ name, type }) => ({ name, type })), [
+					{ name: 'node_modules/@dojo/widget-core/WidgetBase.d.ts', type: ProjectFileType.Definition },
+					{ name: 'node_modules/@types/node/index.d.ts', type: ProjectFileType.Definition },
+					{ name: 'node_modules/@dojo/core/Evented.d.ts', type: ProjectFileType.Definition },
+					{ name: 'node_modules/@dojo/widget-core/interfaces.d.ts', type: ProjectFileType.Definition },
+					{ name: 'node_modules/@dojo/widget-core/globals.d.ts', type: ProjectFileType.Definition },
+					{ name: 'lib.es2015.symbol.d.ts', type: ProjectFileType.Lib }
+				]);
+				assert.strictEqual(files[files.length - 1].text, 'interface Symbol {}');
+			},
+
+			async 'follows the path references of lib files'() {
+				Object.assign(fileMap, {
+					'node_modules/typescript/lib/lib.es2015.d.ts':
+						'/// <reference path="lib.es2015.core.d.ts" />\n/// <reference path="lib.es5.d.ts" />\n' +
+						'/// <reference path="../../outside.d.ts" />\n/// <reference path="lib.missing.d.ts" />',
+					'node_modules/typescript/lib/lib.es2015.core.d.ts': 'interface Array<T> {}',
+					'node_modules/typescript/lib/lib.es5.d.ts': 'interface Object {}',
+					'node_modules/outside.d.ts': ''
+				});
+
+				const files = await getReachableFiles(context, '.', [
+					{ name: 'src/main.ts', text: '/// <reference lib="es2015" />', type: ProjectFileType.TypeScript }
+				]);
+
+				assert.deepEqual(files.map(({ name, type }) => ({ name, type })), [
+					{ name: 'lib.es2015.d.ts', type: ProjectFileType.Lib },
+					{ name: 'lib.es2015.core.d.ts', type: ProjectFileType.Lib },
+					{ name: 'lib.es5.d.ts', type: ProjectFileType.Lib }
+				]);
+				assert.strictEqual(files[2].text, 'interface Object {}');
+			},
+
+			async 'does not include the sources'() {
+				fileMap['node_modules/foo/index.d.ts'] = "import 'bar';";
+				fileMap['node_modules/bar/index.d.ts'] = '';
+				const files = await getReachableFiles(context, '.', [
+					{ name: 'src/main.ts', text: "import 'foo';", type: ProjectFileType.TypeScript },
+					{ name: 'node_modules/bar/index.d.ts', text: '', type: ProjectFileType.Definition }
+				]);
+				assert.deepEqual(files.map(({ name }) => name), ['node_modules/foo/index.d.ts']);
+			},
+
+			async 'does not walk known files'() {
+				fileMap['node_modules/foo/index.d.ts'] = "import 'bar';";
+				fileMap['node_modules/bar/index.d.ts'] = '';
+				fileMap['node_modules/baz/index.d.ts'] = '';
+				const files = await getReachableFiles(
+					context,
+					'.',
+					[
+						{
+							name: 'src/changed.ts',
+							text: "import 'foo';\nimport 'baz';",
+							type: ProjectFileType.TypeScript
+						}
+					],
+					[
+						{ name: 'src/main.ts', text: "import 'qux';", type: ProjectFileType.TypeScript },
+						{ name: 'node_modules/foo/index.d.ts', text: "import 'bar';", type: ProjectFileType.Definition }
+					]
+				);
+				assert.deepEqual(files.map(({ name }) => name), ['node_modules/baz/index.d.ts']);
+			}
+		}
+	}
+});
@@ -0,0 +1,272 @@
+const { registerSuite } = intern.getInterface('object');
+const { assert } = intern.getPlugin('chai');
+
+import { stub, SinonStub } from 'sinon';
+
+import * as fs from 'fs';
+import * as process from 'process';
+
+import diffProject, { DiffArgs, diffProjectJson } from '../../src/diffProject';
+import { InvalidBundleError, ProjectError } from '../../src/errors';
+import { ProjectFileType, ProjectJson } from '../../src/interfaces/project.json';
+import { setStderr } from '../../src/log';
+
+let readFileStub: SinonStub;
+let consoleLogStub: SinonStub;
+let diffArgs: DiffArgs;
+let fileMap: { [filename: string]: string };
+let from: ProjectJson;
+let to: ProjectJson;
+
+/**
+ * Return the text of everything which was logged
+ */
+function getLogged() {
+	return consoleLogStub.args.map(([message]) => message).join('\n');
+}
+
+registerSuite('diffProject', {
+	before() {
+		readFileStub = stub(fs, 'readFile', (name: string, callback: Function) => {
+			if (name in fileMap) {
+				callback(undefined, Buffer.from(fileMap[name]));
+			} else {
+				callback(new Error('file not found'));
+			}
+		});
+	},
+
+	after() {
+		readFileStub.restore();
+	},
+
+	beforeEach() {
+		consoleLogStub = stub(console, 'log');
+		fileMap = {};
+		from = {
+			dependencies: {
+				development: { chai: '^4.0.0' },
+				production: { '@dojo/core': '^2.0.0', '@dojo/has': '^2.0.0' },
+				resolved: {
+					development: [],
+					production: [
+						{ name: '@dojo/core', path: [], range: '^2.0.0', version: '2.0.0' },
+						{ name: '@dojo/has', path: ['@dojo/core'], range: '^2.0.0', version: '2.0.0' }
+					]
+				}
+			},
+			environmentFiles: [
+				{ name: 'lib.es2015.d.ts', text: 'lib', type: ProjectFileType.Lib },
+				{ name: 'node_modules/@dojo/core/lang.d.ts', text: 'lang', type: ProjectFileType.Definition }
+			],
+			files: [
+				{ name: './src/index.html', text: '<html></html>', type: ProjectFileType.HTML },
+				{ name: 'src/main.ts', text: 'a\nb\nc', type: ProjectFileType.TypeScript },
+				{ name: 'src/removed.ts', text: 'removed', type: ProjectFileType.TypeScript }
+			],
+			index: './src/index.html',
+			package: { name: 'test-package' },
+			tsconfig: { compilerOptions: { strict: true, target: 'es5' }, include: ['src/**/*.ts'] }
+		};
+		to = {
+			dependencies: {
+				development: {},
+				production: { '@dojo/core': '^3.0.0', '@dojo/has': '^2.0.0' },
+				resolved: {
+					development: [],
+					production: [
+						{ name: '@dojo/core', path: [], range: '^3.0.0', version: '3.0.1' },
+						{ name: '@dojo/has', path: ['@dojo/core'], range: '^2.0.0', version: '2.0.0' }
+					]
+				}
+			},
+			dojorc: { 'build-app': { locale: 'en' } },
+			environmentFiles: [
+				{ name: 'lib.es2015.d.ts', text: 'lib', type: ProjectFileType.Lib },
+				{ name: 'node_modules/@dojo/core/lang.d.ts', text: 'changed', type: ProjectFileType.Definition }
+			],
+			files: [
+				{ name: './src/index.html', text: '<html></html>', type: ProjectFileType.HTML },
+				{ name: 'src/added.ts', text: 'added', type: ProjectFileType.TypeScript },
+				{ name: 'src/main.ts', text: 'a\nx\nc', type: ProjectFileType.TypeScript }
+			],
+			index: './src/index.html',
+			package: { name: 'test-package' },
+			tsconfig: { compilerOptions: { target: 'es2015' }, include: ['src/**/*.ts'] }
+		};
+		diffArgs = { from: 'from.project.json', json: false, to: 'to.project.json', verbose: false };
+	},
+
+	afterEach() {
+		consoleLogStub.restore();
+		setStderr(false);
+	},
+
+	tests: {
+		diffProjectJson: {
+			'same bundles'() {
+				assert.deepEqual(diffProjectJson(from, from), {
+					dependencies: { development: [], production: [], resolved: { development: [], production: [] } },
+					dojorc: [],
+					environmentFiles: [],
+					files: [],
+					tsconfig: []
+				});
+			},
+
+			'changed bundles'() {
+				assert.deepEqual(diffProjectJson(from, to), {
+					dependencies: {
+						development: [{ from: '^4.0.0', name: 'chai', to: undefined }],
+						production: [{ from: '^2.0.0', name: '@dojo/core', to: '^3.0.0' }],
+						resolved: {
+							development: [],
+							production: [{ from: '2.0.0', name: '@dojo/core', to: '3.0.1' }]
+						}
+					},
+					dojorc: [{ from: undefined, path: 'build-app', to: { locale: 'en' } }],
+					environmentFiles: [{ change: 'changed', name: 'node_modules/@dojo/core/lang.d.ts' }],
+					files: [
+						{ change: 'added', name: 'src/added.ts' },
+						{
+							change: 'changed',
+							diff: [
+								'--- a/src/main.ts',
+								'+++ b/src/main.ts',
+								'@@ -1,3 +1,3 @@',
+								' a',
+								'-b',
+								'+x',
+								' c'
+							].join('\n'),
+							name: 'src/main.ts'
+						},
+						{ change: 'removed', name: 'src/removed.ts' }
+					],
+					tsconfig: [
+						{ from: true, path: 'compilerOptions.strict', to: undefined },
+						{ from: 'es5', path: 'compilerOptions.target', to: 'es2015' }
+					]
+				});
+			},
+
+			'resolved dependencies'() {
+				to.dependencies.resolved!.production[1].version = '2.1.0';
+				to.dependencies.resolved!.development.push({ name: 'chai', path: [], range: '^4.0.0' });
+				delete from.dependencies.resolved;
+				from.dojorc = { 'build-app': { locale: 'fr' } };
+				const { dependencies, dojorc } = diffProjectJson(from, to);
+				assert.deepEqual(dependencies.resolved, {
+					development: [{ from: undefined, name: 'chai', to: '^4.0.0' }],
+					production: [
+						{ from: undefined, name: '@dojo/core', to: '3.0.1' },
+						{ from: undefined, name: '@dojo/core > @dojo/has', to: '2.1.0' }
+					]
+				});
+				assert.deepEqual(dojorc, [{ from: 'fr', path: 'build-app.locale', to: 'en' }]);
+			},
+
+			'split environment'() {
+				to.environment = 'abc123';
+				to.environmentFiles = [];
+				const diff = diffProjectJson(from, to);
+				assert.deepEqual(diff.environment, { from: undefined, to: 'abc123' });
+				assert.deepEqual(diff.environmentFiles.map(({ change }) => change), ['removed', 'removed']);
+			},
+
+			'changed file types'() {
+				to.files = from.files.map((file) => ({ ...file, type: ProjectFileType.PlainText }));
+				assert.deepEqual(diffProjectJson(from, to).files[1], { change: 'changed', name: 'src/main.ts' });
+			}
+		},
+
+		diffProject: {
+			async 'describes the differences'() {
+				fileMap['from.project.json'] = JSON.stringify(from);
+				fileMap['to.project.json'] = JSON.stringify(to);
+				await diffProject(diffArgs);
+
+				const logged = getLogged();
+				assert.include(logged, 'Diff project bundles');
+				assert.include(logged, ' file "src/added.ts"');
+				assert.include(logged, ' file "src/main.ts"');
+				assert.include(logged, '@@ -1,3 +1,3 @@');
+				assert.include(logged, '+x');
+				assert.include(logged, ' environment file "node_modules/@dojo/core/lang.d.ts"');
+				assert.include(logged, ' production dependency "@dojo/core": "^2.0.0" to "^3.0.0"');
+				assert.include(logged, ' development dependency "chai": "^4.0.0"');
+				assert.include(logged, ' resolved production dependency "@dojo/core": "2.0.0" to "3.0.1"');
+				assert.include(logged, ' tsconfig "compilerOptions.target": "es5" to "es2015"');
+				assert.include(logged, ' dojorc "build-app": {"locale":"en"}');
+				assert.include(
+					consoleLogStub.lastCall.args[0],
+					'"from.project.json" to "to.project.json": 10 differences'
+				);
+			},
+
+			async 'describes a split environment'() {
+				to.environment = 'abc123';
+				fileMap['from.project.json'] = JSON.stringify(from);
+				fileMap['to.project.json'] = JSON.stringify(to);
+				await diffProject(diffArgs);
+				assert.include(getLogged(), ' environment bundle: "abc123"');
+			},
+
+			async 'reports no differences'() {
+				fileMap['from.project.json'] = JSON.stringify(from);
+				fileMap['to.project.json'] = JSON.stringify(from);
+				await diffProject(diffArgs);
+				assert.strictEqual(consoleLogStub.callCount, 2);
+				assert.include(consoleLogStub.lastCall.args[0], 'no differences');
+			},
+
+			async 'writes the differences as JSON'() {
+				fileMap['from.project.json'] = JSON.stringify(from);
+				fileMap['to.project.json'] = JSON.stringify(to);
+				diffArgs.json = true;
+				const chunks: string[] = [];
+				const stdoutStub = stub(process.stdout, 'write', (chunk: string) => {
+					chunks.push(chunk);
+					return true;
+				});
+				const consoleErrorStub = stub(console, 'error');
+				try {
+					await diffProject(diffArgs);
+				} finally {
+					stdoutStub.restore();
+					consoleErrorStub.restore();
+				}
+				assert.deepEqual(JSON.parse(chunks.join('')), JSON.parse(JSON.stringify(diffProjectJson(from, to))));
+				assert.isFalse(consoleLogStub.called, 'should not have logged to stdout');
+				assert.include(consoleErrorStub.lastCall.args[0], '10 differences');
+			},
+
+			async 'rejects an invalid bundle'() {
+				fileMap['from.project.json'] = JSON.stringify({ ...from, index: 1 });
+				fileMap['to.project.json'] = JSON.stringify(to);
+				try {
+					await diffProject(diffArgs);
+				} catch (e) {
+					assert.instanceOf(e, InvalidBundleError);
+					assert.strictEqual(e.filename, 'from.project.json');
+					return;
+				}
+				assert.fail('diff should have failed');
+			},
+
+			async 'rejects a missing bundle'() {
+				fileMap['from.project.json'] = JSON.stringify(from);
+				diffArgs.verbose = true;
+				try {
+					await diffProject(diffArgs);
+				} catch (e) {
+					assert.instanceOf(e, ProjectError);
+					assert.include(e.message, '"to.project.json"');
+					assert.include(getLogged(), 'errored');
+					return;
+				}
+				assert.fail('diff should have failed');
+			}
+		}
+	}
+});
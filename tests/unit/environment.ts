@@ -0,0 +1,58 @@
+const { registerSuite } = intern.getInterface('object');
+const { assert } = intern.getPlugin('chai');
+
+import { getEnvironmentHash, splitEnvironment } from '../../src/environment';
+import { ProjectFileType, ProjectJson } from '../../src/interfaces/project.json';
+
+let project: ProjectJson;
+
+registerSuite('environment', {
+	beforeEach() {
+		project = {
+			dependencies: { development: {}, production: {} },
+			environmentFiles: [
+				{ name: 'node_modules/@dojo/core/lang.d.ts', text: 'lang', type: ProjectFileType.Definition },
+				{ name: 'lib.es2015.d.ts', text: 'lib', type: ProjectFileType.Lib }
+			],
+			files: [{ name: 'src/main.ts', text: 'main', type: ProjectFileType.TypeScript }],
+			index: './src/index.html',
+			package: { name: 'test-package' },
+			tsconfig: {}
+		};
+	},
+
+	tests: {
+		getEnvironmentHash() {
+			const hash = getEnvironmentHash({ environmentFiles: project.environmentFiles });
+			assert.match(hash, /^[0-9a-f]{64}$/);
+			assert.strictEqual(getEnvironmentHash({ environmentFiles: project.environmentFiles }), hash);
+			assert.notStrictEqual(getEnvironmentHash({ environmentFiles: [] }), hash);
+		},
+
+		splitEnvironment: {
+			'moves the environment files to a sorted environment bundle'() {
+				const { environment, hash, project: splitProject } = splitEnvironment(project);
+				assert.deepEqual(environment.environmentFiles.map(({ name }) => name), [
+					'lib.es2015.d.ts',
+					'node_modules/@dojo/core/lang.d.ts'
+				]);
+				assert.strictEqual(hash, getEnvironmentHash(environment));
+				assert.strictEqual(splitProject.environment, hash);
+				assert.deepEqual(splitProject.environmentFiles, []);
+				assert.deepEqual(splitProject.files, project.files);
+				assert.lengthOf(project.environmentFiles, 2, 'should not modify the project');
+			},
+
+			'projects with the same environment share a hash'() {
+				const { hash } = splitEnvironment(project);
+				const other = splitEnvironment({
+					...project,
+					environmentFiles: [...project.environmentFiles].reverse(),
+					files: [],
+					package: { name: 'other-package' }
+				});
+				assert.strictEqual(other.hash, hash);
+			}
+		}
+	}
+});
@@ -0,0 +1,91 @@
+const { registerSuite } = intern.getInterface('object');
+const { assert } = intern.getPlugin('chai');
+
+import {
+	InvalidBundleError,
+	MissingConfigError,
+	MissingIndexError,
+	ProjectError,
+	StrictModeError,
+	TypeCheckError,
+	UnreadableFileError,
+	UnresolvablePackageError
+} from '../../src/errors';
+
+registerSuite('errors', {
+	ProjectError() {
+		const error = new ProjectError('failed');
+		assert.instanceOf(error, Error);
+		assert.strictEqual(error.name, 'ProjectError');
+		assert.strictEqual(error.message, 'failed');
+		assert.strictEqual(error.exitCode, 1);
+	},
+
+	MissingConfigError() {
+		const error = new MissingConfigError('/var/project', ['tsconfig.json', 'package.json']);
+		assert.instanceOf(error, ProjectError);
+		assert.strictEqual(error.name, 'MissingConfigError');
+		assert.strictEqual(error.message, 'Path "/var/project" does not contain a "tsconfig.json" and "package.json".');
+		assert.strictEqual(error.path, '/var/project');
+		assert.deepEqual(error.filenames, ['tsconfig.json', 'package.json']);
+	},
+
+	UnreadableFileError() {
+		const error = new UnreadableFileError('src/main.ts', 'EACCES');
+		assert.instanceOf(error, ProjectError);
+		assert.strictEqual(error.name, 'UnreadableFileError');
+		assert.strictEqual(error.message, 'Unable to read "src/main.ts": EACCES');
+		assert.strictEqual(error.filename, 'src/main.ts');
+	},
+
+	UnresolvablePackageError() {
+		const error = new UnresolvablePackageError('foo');
+		assert.instanceOf(error, ProjectError);
+		assert.strictEqual(error.name, 'UnresolvablePackageError');
+		assert.strictEqual(error.message, 'Unable to resolve package "foo".');
+		assert.strictEqual(error.packageName, 'foo');
+		assert.strictEqual(new UnresolvablePackageError('foo', 'custom').message, 'custom');
+	},
+
+	MissingIndexError() {
+		const error = new MissingIndexError('./src/index.html');
+		assert.instanceOf(error, ProjectError);
+		assert.strictEqual(error.name, 'MissingIndexError');
+		assert.strictEqual(error.message, 'Unable to find index "./src/index.html" in project.');
+		assert.strictEqual(error.index, './src/index.html');
+	},
+
+	InvalidBundleError() {
+		const error = new InvalidBundleError('app.project.json', [
+			'"index" must be a string',
+			'"files" must be an array'
+		]);
+		assert.instanceOf(error, ProjectError);
+		assert.strictEqual(error.name, 'InvalidBundleError');
+		assert.strictEqual(
+			error.message,
+			'Bundle "app.project.json" is invalid: "index" must be a string, "files" must be an array.'
+		);
+		assert.strictEqual(error.filename, 'app.project.json');
+		assert.deepEqual(error.problems, ['"index" must be a string', '"files" must be an array']);
+	},
+
+	TypeCheckError() {
+		const error = new TypeCheckError(["src/main.ts(1,21): error TS2307: Cannot find module 'foo'."]);
+		assert.instanceOf(error, ProjectError);
+		assert.strictEqual(error.name, 'TypeCheckError');
+		assert.strictEqual(error.message, 'Bundle does not type check in isolation, diagnostics: 1.');
+		assert.lengthOf(error.diagnostics, 1);
+		assert.strictEqual(
+			new TypeCheckError(['a', 'b']).message,
+			'Bundle does not type check in isolation, diagnostics: 2.'
+		);
+	},
+
+	StrictModeError() {
+		const error = new StrictModeError('missing types');
+		assert.instanceOf(error, ProjectError);
+		assert.strictEqual(error.name, 'StrictModeError');
+		assert.strictEqual(error.message, 'missing types (warnings are errors in strict mode)');
+	}
+});
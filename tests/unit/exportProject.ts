@@ -2,22 +2,38 @@ const { registerSuite } = intern.getInterface('object');
 const { assert } = intern.getPlugin('chai');
 
 import * as mockery from 'mockery';
-import { stub, spy, SinonStub, SinonSpy } from 'sinon';
+import { stub, spy, useFakeTimers, SinonStub, SinonSpy } from 'sinon';
 
+import * as childProcess from 'child_process';
+import { EventEmitter } from 'events';
 import * as fs from 'fs';
+import { dirname, join, resolve } from 'path';
 import * as process from 'process';
+import { Writable } from 'stream';
+import { gunzipSync } from 'zlib';
 
+import { getCacheFilename } from '../../src/cache';
+import { getEnvironmentHash } from '../../src/environment';
+import { parseBundle } from '../../src/formats';
+import { getExporterVersion, getFileHash, getHeaderHash, SCHEMA_VERSION } from '../../src/header';
 import { ExportArgs } from '../../src/main';
-import { ProjectFileType } from '../../src/interfaces/project.json';
+import { ProjectFile, ProjectFileType, ProjectJson } from '../../src/interfaces/project.json';
 
 let exportProject: (args: ExportArgs) => Promise<void>;
+let createProjectJson: (root: string, options?: any) => Promise<ProjectJson>;
+let updateProjectJson: (root: string, project: ProjectJson, changed: string[], options?: any) => Promise<ProjectJson>;
 let accessStub: SinonStub;
 let readFileStub: SinonStub;
 let writeFileStub: SinonStub;
-let chdirStub: SinonStub;
+let createWriteStreamStub: SinonStub;
 let cwdStub: SinonStub;
+let execFileStub: SinonStub;
+let gitCommit: string | undefined;
 let consoleLogStub: SinonStub;
 let globStub: SinonSpy;
+let watchSpy: SinonSpy;
+let watchers: (EventEmitter & { close: SinonStub })[];
+let verifyStub: SinonStub;
 let resolveStub: SinonStub;
 let exportArgs: any;
 let accessMap: { [filename: string]: boolean };
@@ -25,11 +41,49 @@ let readFileMap: { [filename: string]: string };
 let globMap: { [pattern: string]: string[] };
 let resolveMap: { [mid: string]: string };
 let consolelogStack: any[];
+let errors: any;
+
+/**
+ * Assert that exporting the project fails with the supplied error
+ * @param ErrorClass The expected class of the error
+ * @param message Text the error message should include
+ */
+async function assertExportFails(ErrorClass: Function, message: string) {
+	try {
+		await exportProject(exportArgs);
+	} catch (e) {
+		assert.instanceOf(e, ErrorClass);
+		assert.include(e.message, message);
+		assert.strictEqual(e.exitCode, 1, 'should have an exit code');
+		return;
+	}
+	assert.fail('export should have failed');
+}
+
+/**
+ * Parse an exported project bundle, asserting that its header and the content hashes of its files are correct, and
+ * return it without them
+ * @param contents The contents of the bundle
+ */
+function readBundle(contents: Buffer | string) {
+	const bundle: any = parseBundle(contents.toString());
+	const { header } = bundle;
+	assert.strictEqual(header.schema, SCHEMA_VERSION);
+	assert.strictEqual(header.exporter, getExporterVersion());
+	assert.strictEqual(header.hash, getHeaderHash(bundle), 'should have the hash of the bundle');
+	delete bundle.header;
+	[...bundle.environmentFiles, ...bundle.files].forEach((file: ProjectFile) => {
+		assert.strictEqual(file.hash, getFileHash(file.text), `should have the hash of "${file.name}"`);
+		delete file.hash;
+	});
+	return bundle;
+}
 
 registerSuite('exportProject', {
 	before() {
 		mockery.enable({
-			warnOnUnregistered: false
+			warnOnUnregistered: false,
+			useCleanCache: true
 		});
 
 		accessStub = stub(fs, 'access', (name: string, constants: any, callback: (err?: any) => void) => {
@@ -54,25 +108,32 @@ registerSuite('exportProject', {
 			}
 		);
 
-		writeFileStub = stub(
-			fs,
-			'writeFile',
-			(filename: string, contents: string, options: any, callback: (err?: any) => void) => {
-				if (filename === 'err.project.json') {
-					callback(new Error('error writing file'));
-				} else {
-					callback();
+		/* collect what is streamed to each file, and record the file and its contents once the stream finishes */
+		writeFileStub = stub();
+		createWriteStreamStub = stub(fs, 'createWriteStream', (filename: string) => {
+			const chunks: Buffer[] = [];
+			const stream = new Writable({
+				write(chunk: Buffer | string, encoding: string, callback: Function) {
+					if (filename === 'err.project.json') {
+						callback(new Error('error writing file'));
+					} else {
+						chunks.push(Buffer.from(chunk));
+						callback();
+					}
 				}
-			}
-		);
+			});
+			return stream.on('finish', () => writeFileStub(filename, Buffer.concat(chunks)));
+		});
 
-		chdirStub = stub(process, 'chdir', (path: string) => {
-			if (path === '../other-project') {
-				cwdStub.returns('/var/projects/other-project');
+		execFileStub = stub(
+			childProcess,
+			'execFile',
+			(file: string, args: string[], options: any, callback: Function) => {
+				callback(gitCommit ? undefined : new Error('not a git repository'), gitCommit ? `${gitCommit}\n` : '');
 			}
-		});
+		);
 		cwdStub = stub(process, 'cwd').returns('/var/projects/test-project');
-		globStub = spy((pattern: string, callback: (err?: any, matches?: string[]) => void) => {
+		globStub = spy((pattern: string, options: any, callback: (err?: any, matches?: string[]) => void) => {
 			const result = (globMap[pattern] = globMap[pattern] || []);
 			if (result[0] === 'err') {
 				callback(new Error('glob error'));
@@ -83,13 +144,38 @@ registerSuite('exportProject', {
 
 		mockery.registerMock('glob', globStub);
 
+		watchSpy = spy(() => {
+			const watcher = <EventEmitter & { close: SinonStub }>new EventEmitter();
+			watcher.close = stub();
+			watchers.push(watcher);
+			return watcher;
+		});
+		mockery.registerMock('chokidar', { watch: watchSpy });
+		mockery.registerMock('./verify', { default: (...args: any[]) => verifyStub(...args) });
+
 		const exportProjectModule = require('../../src/exportProject');
+		const utilModule = require('../../src/util');
 
-		resolveStub = stub(exportProjectModule, 'requireResolve', (mid: string) => {
-			return (resolveMap[mid] = resolveMap[mid] || '/var/projects/test-project/node_modules/' + mid);
+		resolveStub = stub(utilModule, 'requireResolve', (root: string, mid: string) => {
+			if (resolveMap[mid] === 'err') {
+				throw new Error(`Cannot find module '${mid}'`);
+			}
+			if (resolveMap[mid]) {
+				return resolveMap[mid];
+			}
+			/* search the node_modules of each parent directory, like require, for a file which has content */
+			for (let directory = resolve(root); dirname(directory) !== directory; directory = dirname(directory)) {
+				if (readFileMap[join(directory, 'node_modules', mid)]) {
+					return join(directory, 'node_modules', mid);
+				}
+			}
+			return join(resolve(root), 'node_modules', mid);
 		});
 
 		exportProject = exportProjectModule.default;
+		createProjectJson = exportProjectModule.createProjectJson;
+		updateProjectJson = exportProjectModule.updateProjectJson;
+		errors = require('../../src/errors');
 	},
 
 	after() {
@@ -98,9 +184,9 @@ registerSuite('exportProject', {
 
 		accessStub.restore();
 		readFileStub.restore();
-		writeFileStub.restore();
-		chdirStub.restore();
+		createWriteStreamStub.restore();
 		cwdStub.restore();
+		execFileStub.restore();
 		resolveStub.restore();
 	},
 
@@ -112,13 +198,38 @@ registerSuite('exportProject', {
 		consolelogStack = [];
 
 		exportArgs = {
+			cache: false,
+			cacheDir: undefined,
+			concurrency: undefined,
 			content: undefined,
+			diff: undefined,
+			expanded: false,
+			filename: undefined,
+			force: false,
+			format: 'json',
+			import: undefined,
+			importEnvironment: false,
+			json: false,
 			out: '.',
+			pretty: false,
 			project: '.',
-			verbose: false
+			splitEnvironment: false,
+			strict: false,
+			timestamp: true,
+			transpile: false,
+			treeShake: false,
+			verbose: false,
+			verify: false,
+			watch: false
 		};
 
-		accessMap = { '.dojorc': false };
+		accessMap = {
+			'.dojorc': false,
+			'npm-shrinkwrap.json': false,
+			'package-lock.json': false,
+			'tslint.json': false,
+			'yarn.lock': false
+		};
 		readFileMap = {
 			'package.json': JSON.stringify({ name: 'test-package' }),
 			'tsconfig.json': JSON.stringify({ compilerOptions: {}, include: ['src/**/*.ts'] }),
@@ -133,6 +244,9 @@ registerSuite('exportProject', {
 			'src/**/*.{ts,tsx,html,css,json,xml,md}': ['./src/index.html']
 		};
 		resolveMap = {};
+		watchers = [];
+		verifyStub = stub().returns(Promise.resolve());
+		gitCommit = undefined;
 	},
 
 	afterEach() {
@@ -141,11 +255,12 @@ registerSuite('exportProject', {
 		accessStub.reset();
 		readFileStub.reset();
 		writeFileStub.reset();
-		chdirStub.reset();
+		createWriteStreamStub.reset();
 		cwdStub.reset();
 		cwdStub.returns('/var/projects/test-project');
 		globStub.reset();
 		resolveStub.reset();
+		watchSpy.reset();
 	},
 
 	tests: {
@@ -159,9 +274,9 @@ registerSuite('exportProject', {
 				'should have written expected filename'
 			);
 			assert.deepEqual(
-				JSON.parse(writeFileStub.lastCall.args[1]),
+				readBundle(writeFileStub.lastCall.args[1]),
 				{
-					dependencies: { development: {}, production: {} },
+					dependencies: { development: {}, production: {}, resolved: { development: [], production: [] } },
 					environmentFiles: [],
 					files: [{ name: './src/index.html', text: '', type: ProjectFileType.HTML }],
 					index: './src/index.html',
@@ -182,9 +297,9 @@ registerSuite('exportProject', {
 			await exportProject(exportArgs);
 
 			assert.deepEqual(
-				JSON.parse(writeFileStub.lastCall.args[1]),
+				readBundle(writeFileStub.lastCall.args[1]),
 				{
-					dependencies: { development: {}, production: {} },
+					dependencies: { development: {}, production: {}, resolved: { development: [], production: [] } },
 					dojorc,
 					environmentFiles: [],
 					files: [{ name: './src/index.html', text: '', type: ProjectFileType.HTML }],
@@ -196,6 +311,31 @@ registerSuite('exportProject', {
 			);
 		},
 
+		async 'reads a tsconfig.json and .dojorc with comments and trailing commas'() {
+			accessMap['.dojorc'] = true;
+			readFileMap['.dojorc'] = '{\n\t// build options\n\t"build-webpack": { "locale": "en", },\n}';
+			readFileMap['tsconfig.json'] =
+				'{\n\t/* options */\n\t"compilerOptions": {},\n\t"include": ["src/**/*.ts",],\n}';
+
+			await exportProject(exportArgs);
+
+			const project = readBundle(writeFileStub.lastCall.args[1]);
+			assert.deepEqual(project.dojorc, { 'build-webpack': { locale: 'en' } });
+			assert.deepEqual(project.tsconfig, { compilerOptions: {}, include: ['src/**/*.ts'] });
+		},
+
+		async 'reads in tslint.json'() {
+			accessMap['tslint.json'] = true;
+			readFileMap['tslint.json'] = JSON.stringify({ extends: './tslint.base.json', rules: { curly: true } });
+			readFileMap['tslint.base.json'] = JSON.stringify({ rules: { curly: false, 'no-eval': true } });
+
+			await exportProject(exportArgs);
+
+			assert.deepEqual(readBundle(writeFileStub.lastCall.args[1]).tslint, {
+				rules: { curly: true, 'no-eval': true }
+			});
+		},
+
 		async 'adds appropriate lib files to project'() {
 			readFileMap['tsconfig.json'] = JSON.stringify({
 				compilerOptions: {
@@ -207,12 +347,12 @@ registerSuite('exportProject', {
 			readFileMap['node_modules/typescript/lib/lib.bar.d.ts'] = 'bar';
 			await exportProject(exportArgs);
 			assert.deepEqual(
-				JSON.parse(writeFileStub.lastCall.args[1]),
+				readBundle(writeFileStub.lastCall.args[1]),
 				{
-					dependencies: { development: {}, production: {} },
+					dependencies: { development: {}, production: {}, resolved: { development: [], production: [] } },
 					environmentFiles: [
-						{ name: 'lib.foo.d.ts', text: 'foo', type: ProjectFileType.Lib },
-						{ name: 'lib.bar.d.ts', text: 'bar', type: ProjectFileType.Lib }
+						{ name: 'lib.bar.d.ts', text: 'bar', type: ProjectFileType.Lib },
+						{ name: 'lib.foo.d.ts', text: 'foo', type: ProjectFileType.Lib }
 					],
 					files: [{ name: './src/index.html', text: '', type: ProjectFileType.HTML }],
 					index: './src/index.html',
@@ -228,6 +368,37 @@ registerSuite('exportProject', {
 			);
 		},
 
+		async 'adds lib files inherited from an extended tsconfig.json'() {
+			readFileMap['tsconfig.json'] = JSON.stringify({
+				extends: './tsconfig.base.json',
+				include: ['src/**/*.ts']
+			});
+			readFileMap['tsconfig.base.json'] = JSON.stringify({
+				compilerOptions: {
+					lib: ['foo']
+				}
+			});
+			readFileMap['node_modules/typescript/lib/lib.foo.d.ts'] = 'foo';
+			await exportProject(exportArgs);
+			assert.deepEqual(
+				readBundle(writeFileStub.lastCall.args[1]),
+				{
+					dependencies: { development: {}, production: {}, resolved: { development: [], production: [] } },
+					environmentFiles: [{ name: 'lib.foo.d.ts', text: 'foo', type: ProjectFileType.Lib }],
+					files: [{ name: './src/index.html', text: '', type: ProjectFileType.HTML }],
+					index: './src/index.html',
+					package: { name: 'test-package' },
+					tsconfig: {
+						compilerOptions: {
+							lib: ['foo']
+						},
+						include: ['src/**/*.ts']
+					}
+				},
+				'should have written the merged tsconfig.json'
+			);
+		},
+
 		async 'resolves types specified in the tsconfig.json'() {
 			readFileMap['tsconfig.json'] = JSON.stringify({
 				compilerOptions: {
@@ -243,24 +414,24 @@ registerSuite('exportProject', {
 				'warning should include proper info'
 			);
 			assert.deepEqual(
-				JSON.parse(writeFileStub.lastCall.args[1]),
+				readBundle(writeFileStub.lastCall.args[1]),
 				{
-					dependencies: { development: {}, production: {} },
+					dependencies: { development: {}, production: {}, resolved: { development: [], production: [] } },
 					environmentFiles: [
-						{
-							name: 'node_modules/foo/package.json',
-							text: '{"types":"foo.d.ts"}',
-							type: ProjectFileType.JSON
-						},
+						{ name: 'node_modules/bar/bar.d.ts', text: '', type: ProjectFileType.Definition },
 						{
 							name: 'node_modules/bar/package.json',
 							text: '{"typings":"bar.d.ts"}',
 							type: ProjectFileType.JSON
 						},
+						{ name: 'node_modules/baz/index.d.ts', text: '', type: ProjectFileType.Definition },
 						{ name: 'node_modules/baz/package.json', text: '{}', type: ProjectFileType.JSON },
 						{ name: 'node_modules/foo/foo.d.ts', text: '', type: ProjectFileType.Definition },
-						{ name: 'node_modules/bar/bar.d.ts', text: '', type: ProjectFileType.Definition },
-						{ name: 'node_modules/baz/index.d.ts', text: '', type: ProjectFileType.Definition }
+						{
+							name: 'node_modules/foo/package.json',
+							text: '{"types":"foo.d.ts"}',
+							type: ProjectFileType.JSON
+						}
 					],
 					files: [{ name: './src/index.html', text: '', type: ProjectFileType.HTML }],
 					index: './src/index.html',
@@ -276,6 +447,47 @@ registerSuite('exportProject', {
 			);
 		},
 
+		async 'resolves types of production dependencies'() {
+			readFileMap['package.json'] = JSON.stringify({
+				name: 'test-package',
+				dependencies: { foo: '^1.0.0', rxjs: '^5.0.0', lodash: '^4.0.0' },
+				devDependencies: { bar: '^1.0.0' }
+			});
+			readFileMap['tsconfig.json'] = JSON.stringify({
+				compilerOptions: { types: ['foo'] },
+				include: ['src/**/*.ts']
+			});
+			readFileMap['node_modules/rxjs/package.json'] = JSON.stringify({ typings: 'Rx.d.ts' });
+			readFileMap['node_modules/rxjs/Rx.d.ts'] = 'rx';
+			readFileMap['node_modules/lodash/package.json'] = JSON.stringify({ main: 'lodash.js' });
+			resolveMap['lodash/index.d.ts'] = 'err';
+			await exportProject(exportArgs);
+			assert.strictEqual(consoleLogStub.callCount, 2, 'should not have logged a warning');
+			assert.deepEqual(readBundle(writeFileStub.lastCall.args[1]).environmentFiles, [
+				{ name: 'node_modules/foo/foo.d.ts', text: '', type: ProjectFileType.Definition },
+				{ name: 'node_modules/foo/package.json', text: '{"types":"foo.d.ts"}', type: ProjectFileType.JSON },
+				{ name: 'node_modules/rxjs/Rx.d.ts', text: 'rx', type: ProjectFileType.Definition },
+				{ name: 'node_modules/rxjs/package.json', text: '{"typings":"Rx.d.ts"}', type: ProjectFileType.JSON }
+			]);
+		},
+
+		async 'does not add the types of production dependencies when tree shaking'() {
+			readFileMap['package.json'] = JSON.stringify({ name: 'test-package', dependencies: { rxjs: '^5.0.0' } });
+			readFileMap['node_modules/rxjs/package.json'] = JSON.stringify({ typings: 'Rx.d.ts' });
+			readFileMap['node_modules/rxjs/Rx.d.ts'] = 'rx';
+			exportArgs.treeShake = true;
+			await exportProject(exportArgs);
+			assert.deepEqual(readBundle(writeFileStub.lastCall.args[1]).environmentFiles, []);
+		},
+
+		async 'skips production dependencies which cannot be resolved'() {
+			readFileMap['package.json'] = JSON.stringify({ name: 'test-package', dependencies: { missing: '^1.0.0' } });
+			resolveMap['missing/package.json'] = 'err';
+			exportArgs.strict = true;
+			await exportProject(exportArgs);
+			assert.deepEqual(readBundle(writeFileStub.lastCall.args[1]).environmentFiles, []);
+		},
+
 		async 'automatically adds @dojo and @types definitions'() {
 			globMap['node_modules/{@dojo,@types}/**/*.d.ts'] = [
 				'node_modules/@dojo/loader/interfaces.d.ts',
@@ -286,16 +498,16 @@ registerSuite('exportProject', {
 			await exportProject(exportArgs);
 			assert.strictEqual(consoleLogStub.callCount, 2, 'should have only logged twice to console');
 			assert.deepEqual(
-				JSON.parse(writeFileStub.lastCall.args[1]),
+				readBundle(writeFileStub.lastCall.args[1]),
 				{
-					dependencies: { development: {}, production: {} },
+					dependencies: { development: {}, production: {}, resolved: { development: [], production: [] } },
 					environmentFiles: [
+						{ name: 'node_modules/@dojo/core/lang.d.ts', text: 'lang', type: ProjectFileType.Definition },
 						{
 							name: 'node_modules/@dojo/loader/dojo-loader-2.0.0.d.ts',
 							text: 'loader',
 							type: ProjectFileType.Definition
 						},
-						{ name: 'node_modules/@dojo/core/lang.d.ts', text: 'lang', type: ProjectFileType.Definition },
 						{
 							name: 'node_modules/@types/chai/assert.d.ts',
 							text: 'assert',
@@ -330,17 +542,17 @@ registerSuite('exportProject', {
 			await exportProject(exportArgs);
 			assert.strictEqual(consoleLogStub.callCount, 2, 'should have only logged twice to console');
 			assert.deepEqual(
-				JSON.parse(writeFileStub.lastCall.args[1]),
+				readBundle(writeFileStub.lastCall.args[1]),
 				{
-					dependencies: { development: {}, production: {} },
+					dependencies: { development: {}, production: {}, resolved: { development: [], production: [] } },
 					environmentFiles: [],
 					files: [
-						{ name: 'src/index.ts', text: '', type: ProjectFileType.TypeScript },
 						{ name: './src/index.html', text: '', type: ProjectFileType.HTML },
-						{ name: 'src/core.css', text: '', type: ProjectFileType.CSS },
-						{ name: 'src/config/config.json', text: '', type: ProjectFileType.JSON },
-						{ name: 'src/config/build.xml', text: '', type: ProjectFileType.XML },
 						{ name: 'src/README.md', text: '', type: ProjectFileType.Markdown },
+						{ name: 'src/config/build.xml', text: '', type: ProjectFileType.XML },
+						{ name: 'src/config/config.json', text: '', type: ProjectFileType.JSON },
+						{ name: 'src/core.css', text: '', type: ProjectFileType.CSS },
+						{ name: 'src/index.ts', text: '', type: ProjectFileType.TypeScript },
 						{ name: 'src/interfaces.d.ts', text: '', type: ProjectFileType.Definition },
 						{ name: 'src/text.txt', text: '', type: ProjectFileType.PlainText },
 						{ name: 'src/widgets/Foo.tsx', text: '', type: ProjectFileType.TypeScript }
@@ -356,6 +568,162 @@ registerSuite('exportProject', {
 			);
 		},
 
+		async 'adds project files listed in tsconfig.json files'() {
+			globMap['src/**/*.{ts,tsx,html,css,json,xml,md}'] = ['./src/index.html', 'src/main.ts'];
+			readFileMap['tsconfig.json'] = JSON.stringify({
+				compilerOptions: {},
+				files: ['typings/globals.d.ts', 'src/main.ts'],
+				include: ['src/**/*.ts']
+			});
+			await exportProject(exportArgs);
+			assert.deepEqual(
+				readBundle(writeFileStub.lastCall.args[1]).files,
+				[
+					{ name: './src/index.html', text: '', type: ProjectFileType.HTML },
+					{ name: 'src/main.ts', text: '', type: ProjectFileType.TypeScript },
+					{ name: 'typings/globals.d.ts', text: '', type: ProjectFileType.Definition }
+				],
+				'should have added the listed files once'
+			);
+		},
+
+		async 'sorts the files and dependencies'() {
+			globMap['src/**/*.{ts,tsx,html,css,json,xml,md}'] = ['src/widgets/b.ts', './src/index.html', 'src/a.ts'];
+			globMap['node_modules/{@dojo,@types}/**/*.d.ts'] = [
+				'node_modules/@types/chai/assert.d.ts',
+				'node_modules/@dojo/core/lang.d.ts'
+			];
+			readFileMap['package.json'] = JSON.stringify({
+				name: 'test-package',
+				dependencies: { zeta: '^1.0.0' },
+				peerDependencies: { alpha: '^1.0.0' }
+			});
+			resolveMap['zeta/package.json'] = 'err';
+			resolveMap['alpha/package.json'] = 'err';
+			exportArgs.timestamp = false;
+			await exportProject(exportArgs);
+			const json: string = writeFileStub.lastCall.args[1].toString();
+			const project = JSON.parse(json);
+			assert.deepEqual(project.files.map(({ name }: { name: string }) => name), [
+				'./src/index.html',
+				'src/a.ts',
+				'src/widgets/b.ts'
+			]);
+			assert.deepEqual(project.environmentFiles.map(({ name }: { name: string }) => name), [
+				'node_modules/@dojo/core/lang.d.ts',
+				'node_modules/@types/chai/assert.d.ts'
+			]);
+			assert.deepEqual(Object.keys(project.dependencies.production), ['alpha', 'zeta']);
+
+			await exportProject(exportArgs);
+			assert.strictEqual(writeFileStub.lastCall.args[1].toString(), json, 'should be reproducible');
+		},
+
+		async 'keeps the package.json in the order it was authored in'() {
+			readFileMap['package.json'] = JSON.stringify({
+				name: 'test-package',
+				exports: { '.': { types: './index.d.ts', default: './index.js' } }
+			});
+			await exportProject(exportArgs);
+			assert.include(
+				writeFileStub.lastCall.args[1].toString(),
+				'"package":{"name":"test-package","exports":{".":{"types":"./index.d.ts","default":"./index.js"}}}'
+			);
+		},
+
+		async 'only adds files listed in tsconfig.json files when there is no include'() {
+			readFileMap['tsconfig.json'] = JSON.stringify({
+				compilerOptions: {},
+				files: ['./src/index.html']
+			});
+			await exportProject(exportArgs);
+			assert.strictEqual(globStub.callCount, 1, 'should only have globbed the definition files');
+			assert.deepEqual(readBundle(writeFileStub.lastCall.args[1]).files, [
+				{ name: './src/index.html', text: '', type: ProjectFileType.HTML }
+			]);
+		},
+
+		async 'excludes files based on tsconfig.json exclude'() {
+			readFileMap['tsconfig.json'] = JSON.stringify({
+				compilerOptions: {},
+				include: ['src/**/*.ts'],
+				exclude: ['./src/generated/', '**/*.spec.ts']
+			});
+			await exportProject(exportArgs);
+			assert.deepEqual(globStub.lastCall.args[1].ignore, [
+				'src/generated',
+				'src/generated/**',
+				'./src/generated',
+				'./src/generated/**',
+				'**/*.spec.ts',
+				'**/*.spec.ts/**',
+				'./**/*.spec.ts',
+				'./**/*.spec.ts/**',
+				'node_modules',
+				'node_modules/**',
+				'./node_modules',
+				'./node_modules/**',
+				'bower_components',
+				'bower_components/**',
+				'./bower_components',
+				'./bower_components/**',
+				'jspm_packages',
+				'jspm_packages/**',
+				'./jspm_packages',
+				'./jspm_packages/**'
+			]);
+		},
+
+		async 'uses the default tsconfig.json include and exclude'() {
+			globMap['**/*.{ts,tsx,html,css,json,xml,md}'] = ['src/index.html'];
+			readFileMap['tsconfig.json'] = JSON.stringify({
+				compilerOptions: { outDir: 'dist' }
+			});
+			await exportProject(exportArgs);
+			assert.strictEqual(globStub.lastCall.args[0], '**/*.{ts,tsx,html,css,json,xml,md}');
+			assert.includeMembers(globStub.lastCall.args[1].ignore, [
+				'node_modules/**',
+				'bower_components/**',
+				'jspm_packages/**',
+				'dist/**',
+				'**/*.{environment,project}.{json,json.gz,zip}',
+				'**/package-lock.json'
+			]);
+			const project = readBundle(writeFileStub.lastCall.args[1]);
+			assert.deepEqual(project.files, [{ name: 'src/index.html', text: '', type: ProjectFileType.HTML }]);
+			assert.strictEqual(project.index, 'src/index.html', 'should have the name of the index file');
+		},
+
+		async 'only ignores exported bundles and lockfiles for the default tsconfig.json include'() {
+			await exportProject(exportArgs);
+			assert.notInclude(globStub.lastCall.args[1].ignore, '**/package-lock.json');
+		},
+
+		async 'matches the index regardless of a leading ./'() {
+			globMap['src/**/*.{ts,tsx,html,css,json,xml,md}'] = ['src/index.html', 'src/main.ts'];
+			exportArgs.index = './src/main.ts';
+			await exportProject(exportArgs);
+			assert.strictEqual(readBundle(writeFileStub.lastCall.args[1]).index, 'src/main.ts');
+		},
+
+		async 'treats tsconfig.json include patterns without an extension as directories'() {
+			readFileMap['tsconfig.json'] = JSON.stringify({
+				compilerOptions: {},
+				include: ['src', 'tests/', 'typings/**', 'examples/*', 'other/*.tsx']
+			});
+			globMap['src/**/*.ts'] = ['src/index.ts'];
+			exportArgs.content = 'ts';
+			exportArgs.index = 'src/index.ts';
+			await exportProject(exportArgs);
+			assert.deepEqual(globStub.args.map(([pattern]) => pattern).slice(1), [
+				'src/**/*.ts',
+				'tests/**/*.ts',
+				'typings/**/*.ts',
+				'examples/*.ts',
+				'other/*.tsx'
+			]);
+		},
+
 		'resolves package dependencies': {
 			async 'no additional dependencies'() {
 				Object.assign(readFileMap, {
@@ -385,15 +753,17 @@ registerSuite('exportProject', {
 				await exportProject(exportArgs);
 				assert.strictEqual(consoleLogStub.callCount, 2);
 				assert.deepEqual(
-					JSON.parse(writeFileStub.lastCall.args[1]),
+					readBundle(writeFileStub.lastCall.args[1]),
 					{
 						dependencies: {
-							development: {
-								dep3: '0.1.0'
-							},
-							production: {
-								dep1: '1.0.0',
-								dep2: '2.0.0'
+							development: { dep3: '0.1.0' },
+							production: { dep1: '1.0.0', dep2: '2.0.0' },
+							resolved: {
+								development: [{ name: 'dep3', path: [], range: '0.1.0' }],
+								production: [
+									{ name: 'dep2', path: [], range: '2.0.0' },
+									{ name: 'dep1', path: [], range: '1.0.0' }
+								]
 							}
 						},
 						environmentFiles: [],
@@ -456,16 +826,18 @@ registerSuite('exportProject', {
 				await exportProject(exportArgs);
 				assert.strictEqual(consoleLogStub.callCount, 2);
 				assert.deepEqual(
-					JSON.parse(writeFileStub.lastCall.args[1]),
+					readBundle(writeFileStub.lastCall.args[1]),
 					{
 						dependencies: {
-							development: {
-								dep3: '0.1.0'
-							},
-							production: {
-								dep1: '1.0.0',
-								dep2: '2.0.0',
-								dep4: 'next'
+							development: { dep3: '0.1.0' },
+							production: { dep1: '1.0.0', dep2: '2.0.0', dep4: 'next' },
+							resolved: {
+								development: [{ name: 'dep3', path: [], range: '0.1.0' }],
+								production: [
+									{ name: 'dep2', path: [], range: '2.0.0' },
+									{ name: 'dep1', path: [], range: '1.0.0' },
+									{ name: 'dep4', path: ['dep1'], range: 'next' }
+								]
 							}
 						},
 						environmentFiles: [],
@@ -528,16 +900,18 @@ registerSuite('exportProject', {
 				await exportProject(exportArgs);
 				assert.strictEqual(consoleLogStub.callCount, 2);
 				assert.deepEqual(
-					JSON.parse(writeFileStub.lastCall.args[1]),
+					readBundle(writeFileStub.lastCall.args[1]),
 					{
 						dependencies: {
-							development: {
-								dep3: '0.1.0'
-							},
-							production: {
-								dep1: '1.0.0',
-								dep2: '2.0.0',
-								dep6: 'next'
+							development: { dep3: '0.1.0' },
+							production: { dep1: '1.0.0', dep2: '2.0.0', dep6: 'next' },
+							resolved: {
+								development: [{ name: 'dep3', path: [], range: '0.1.0' }],
+								production: [
+									{ name: 'dep2', path: [], range: '2.0.0' },
+									{ name: 'dep1', path: [], range: '1.0.0' },
+									{ name: 'dep6', path: ['dep1'], range: 'next' }
+								]
 							}
 						},
 						environmentFiles: [],
@@ -598,17 +972,21 @@ registerSuite('exportProject', {
 				await exportProject(exportArgs);
 				assert.strictEqual(consoleLogStub.callCount, 2);
 				assert.deepEqual(
-					JSON.parse(writeFileStub.lastCall.args[1]),
+					readBundle(writeFileStub.lastCall.args[1]),
 					{
 						dependencies: {
-							development: {
-								dep3: '0.1.0',
-								dep4: '2.0.0'
-							},
-							production: {
-								dep1: '1.0.0',
-								dep2: '2.0.0',
-								dep4: '1.0.0'
+							development: { dep3: '0.1.0', dep4: '2.0.0' },
+							production: { dep1: '1.0.0', dep2: '2.0.0', dep4: '1.0.1' },
+							resolved: {
+								development: [
+									{ name: 'dep3', path: [], range: '0.1.0' },
+									{ name: 'dep4', path: ['dep3'], range: '2.0.0' }
+								],
+								production: [
+									{ name: 'dep2', path: [], range: '2.0.0' },
+									{ name: 'dep1', path: [], range: '1.0.0' },
+									{ name: 'dep4', path: ['dep2'], range: '1.0.1' }
+								]
 							}
 						},
 						environmentFiles: [],
@@ -666,15 +1044,19 @@ registerSuite('exportProject', {
 				await exportProject(exportArgs);
 				assert.strictEqual(consoleLogStub.callCount, 2);
 				assert.deepEqual(
-					JSON.parse(writeFileStub.lastCall.args[1]),
+					readBundle(writeFileStub.lastCall.args[1]),
 					{
 						dependencies: {
 							development: {},
-							production: {
-								dep1: '1.0.0',
-								dep2: '1.0.0',
-								dep3: '1.0.0',
-								dep4: '2.0.0'
+							production: { dep1: '1.0.0', dep2: '1.0.0', dep3: '2.0.0', dep4: '1.0.0' },
+							resolved: {
+								development: [],
+								production: [
+									{ name: 'dep1', path: [], range: '1.0.0' },
+									{ name: 'dep2', path: ['dep1'], range: '1.0.0' },
+									{ name: 'dep3', path: ['dep1'], range: '2.0.0' },
+									{ name: 'dep4', path: ['dep1'], range: '1.0.0' }
+								]
 							}
 						},
 						environmentFiles: [],
@@ -730,15 +1112,19 @@ registerSuite('exportProject', {
 				await exportProject(exportArgs);
 				assert.strictEqual(consoleLogStub.callCount, 2);
 				assert.deepEqual(
-					JSON.parse(writeFileStub.lastCall.args[1]),
+					readBundle(writeFileStub.lastCall.args[1]),
 					{
 						dependencies: {
 							development: {},
-							production: {
-								dep1: '1.0.0',
-								dep2: '1.0.0',
-								dep3: '1.0.0',
-								dep4: '1.0.0'
+							production: { dep1: '1.0.0', dep2: '1.0.0', dep3: '2.0.0', dep4: '1.0.0' },
+							resolved: {
+								development: [],
+								production: [
+									{ name: 'dep1', path: [], range: '1.0.0' },
+									{ name: 'dep3', path: ['dep1'], range: '2.0.0' },
+									{ name: 'dep2', path: ['dep1'], range: '1.0.0' },
+									{ name: 'dep4', path: ['dep1'], range: '1.0.0' }
+								]
 							}
 						},
 						environmentFiles: [],
@@ -754,6 +1140,126 @@ registerSuite('exportProject', {
 					},
 					'should have written expected contents'
 				);
+			},
+
+			async 'installed versions of nested dependencies'() {
+				Object.assign(readFileMap, {
+					'/var/projects/test-project/node_modules/dep1/package.json': JSON.stringify({
+						version: '1.2.3',
+						dependencies: { dep3: '^2.0.0' }
+					}),
+					'/var/projects/test-project/node_modules/dep2/package.json': JSON.stringify({
+						version: '2.0.1',
+						dependencies: { dep3: '^1.0.0' }
+					}),
+					'/var/projects/test-project/node_modules/dep1/node_modules/dep3/package.json': JSON.stringify({
+						version: '2.1.0'
+					}),
+					'/var/projects/test-project/node_modules/dep3/package.json': JSON.stringify({ version: '1.4.0' }),
+					'package.json': JSON.stringify({
+						name: 'test-package',
+						dependencies: { dep1: '^1.0.0', dep2: '^2.0.0' }
+					})
+				});
+
+				await exportProject(exportArgs);
+				assert.strictEqual(consoleLogStub.callCount, 3, 'should have logged a warning');
+				assert.include(
+					consoleLogStub.getCall(1).args[0],
+					'conflicting versions of package "dep3" are installed: "2.1.0" required by "dep1", "1.4.0" ' +
+						'required by "dep2"'
+				);
+				assert.deepEqual(readBundle(writeFileStub.lastCall.args[1]).dependencies, {
+					development: {},
+					production: { dep1: '^1.0.0', dep2: '^2.0.0', dep3: '^2.0.0' },
+					resolved: {
+						development: [],
+						production: [
+							{ name: 'dep1', path: [], range: '^1.0.0', version: '1.2.3' },
+							{ name: 'dep2', path: [], range: '^2.0.0', version: '2.0.1' },
+							{ name: 'dep3', path: ['dep1'], range: '^2.0.0', version: '2.1.0' },
+							{ name: 'dep3', path: ['dep2'], range: '^1.0.0', version: '1.4.0' }
+						]
+					}
+				});
+			},
+
+			async 'conflicting versions fail in strict mode'() {
+				Object.assign(readFileMap, {
+					'/var/projects/test-project/node_modules/dep1/package.json': JSON.stringify({
+						version: '1.0.0',
+						dependencies: { dep2: '^2.0.0' }
+					}),
+					'/var/projects/test-project/node_modules/dep1/node_modules/dep2/package.json': JSON.stringify({
+						version: '2.0.0'
+					}),
+					'/var/projects/test-project/node_modules/dep2/package.json': JSON.stringify({ version: '1.0.0' }),
+					'package.json': JSON.stringify({
+						name: 'test-package',
+						dependencies: { dep1: '^1.0.0', dep2: '^1.0.0' }
+					})
+				});
+				exportArgs.strict = true;
+				await assertExportFails(
+					errors.StrictModeError,
+					'conflicting versions of package "dep2" are installed: "1.0.0" required by "the project", "2.0.0" ' +
+						'required by "dep1"'
+				);
+			},
+
+			async 'resolved from the lockfile'() {
+				accessMap['package-lock.json'] = true;
+				Object.assign(readFileMap, {
+					'package-lock.json': JSON.stringify({
+						lockfileVersion: 2,
+						packages: {
+							'': { dependencies: { dep1: '^1.0.0' } },
+							'node_modules/dep1': {
+								version: '1.0.1',
+								resolved: 'https://registry.npmjs.org/dep1/-/dep1-1.0.1.tgz',
+								integrity: 'sha512-dep1',
+								dependencies: { dep2: '^2.0.0' }
+							},
+							'node_modules/dep2': {
+								version: '2.3.0',
+								resolved: 'https://registry.npmjs.org/dep2/-/dep2-2.3.0.tgz',
+								integrity: 'sha512-dep2'
+							}
+						}
+					}),
+					'/var/projects/test-project/node_modules/dep1/package.json': JSON.stringify({ version: '0.0.1' }),
+					'package.json': JSON.stringify({
+						name: 'test-package',
+						dependencies: { dep1: '^1.0.0' }
+					})
+				});
+
+				await exportProject(exportArgs);
+				assert.deepEqual(readBundle(writeFileStub.lastCall.args[1]).dependencies, {
+					development: {},
+					production: { dep1: '^1.0.0', dep2: '^2.0.0' },
+					resolved: {
+						development: [],
+						production: [
+							{
+								integrity: 'sha512-dep1',
+								name: 'dep1',
+								path: [],
+								range: '^1.0.0',
+								resolved: 'https://registry.npmjs.org/dep1/-/dep1-1.0.1.tgz',
+								version: '1.0.1'
+							},
+							{
+								integrity: 'sha512-dep2',
+								name: 'dep2',
+								path: ['dep1'],
+								range: '^2.0.0',
+								resolved: 'https://registry.npmjs.org/dep2/-/dep2-2.3.0.tgz',
+								version: '2.3.0'
+							}
+						]
+					}
+				});
 			}
 		},
 
@@ -779,6 +1285,16 @@ registerSuite('exportProject', {
 			);
 		},
 
+		async 'package name contains several slashes'() {
+			readFileMap['package.json'] = JSON.stringify({ name: '@dojo/widgets\\button/x' });
+			await exportProject(exportArgs);
+			assert.strictEqual(
+				writeFileStub.lastCall.args[0],
+				'@dojo-widgets-button-x.project.json',
+				'should have written expected filename'
+			);
+		},
+
 		'export project arguments': {
 			async index() {
 				globMap['src/**/*.{ts,html}'] = ['src/index.ts', 'src/foo.html'];
@@ -792,13 +1308,17 @@ registerSuite('exportProject', {
 				await exportProject(exportArgs);
 				assert.strictEqual(consoleLogStub.callCount, 2, 'should have only logged twice to console');
 				assert.deepEqual(
-					JSON.parse(writeFileStub.lastCall.args[1]),
+					readBundle(writeFileStub.lastCall.args[1]),
 					{
-						dependencies: { development: {}, production: {} },
+						dependencies: {
+							development: {},
+							production: {},
+							resolved: { development: [], production: [] }
+						},
 						environmentFiles: [],
 						files: [
-							{ name: 'src/index.ts', text: '', type: ProjectFileType.TypeScript },
-							{ name: 'src/foo.html', text: '', type: ProjectFileType.HTML }
+							{ name: 'src/foo.html', text: '', type: ProjectFileType.HTML },
+							{ name: 'src/index.ts', text: '', type: ProjectFileType.TypeScript }
 						],
 						index: 'src/foo.html',
 						package: { name: 'test-package' },
@@ -822,15 +1342,348 @@ registerSuite('exportProject', {
 				);
 			},
 
+			'split-environment': {
+				async 'writes a separate environment bundle'() {
+					globMap['node_modules/{@dojo,@types}/**/*.d.ts'] = ['node_modules/@dojo/core/lang.d.ts'];
+					const hash = getEnvironmentHash({
+						environmentFiles: [
+							{
+								hash: getFileHash('lang'),
+								name: 'node_modules/@dojo/core/lang.d.ts',
+								text: 'lang',
+								type: ProjectFileType.Definition
+							}
+						]
+					});
+					accessMap[`${hash}.environment.json`] = false;
+					exportArgs.splitEnvironment = true;
+					await exportProject(exportArgs);
+					assert.strictEqual(consoleLogStub.callCount, 3, 'should have logged both bundles');
+					assert.strictEqual(writeFileStub.callCount, 2, 'should have written both bundles');
+
+					const [environmentFile, environmentText] = writeFileStub.firstCall.args;
+					const environment = JSON.parse(environmentText);
+					const project = readBundle(writeFileStub.lastCall.args[1]);
+					assert.strictEqual(environmentFile, `${hash}.environment.json`);
+					assert.strictEqual(project.environment, hash);
+					assert.deepEqual(environment.environmentFiles.map(({ name }: any) => name), [
+						'node_modules/@dojo/core/lang.d.ts'
+					]);
+					assert.deepEqual(project.environmentFiles, []);
+					assert.strictEqual(writeFileStub.lastCall.args[0], 'test-package.project.json');
+				},
+
+				async 'does not rewrite an existing environment bundle'() {
+					exportArgs.splitEnvironment = true;
+					exportArgs.verbose = true;
+					await exportProject(exportArgs);
+					assert.strictEqual(writeFileStub.callCount, 1, 'should only have written the project bundle');
+					assert.isTrue(
+						consolelogStack.some(([message]) => /skipping.*already exported/.test(message)),
+						'should have logged the environment bundle was skipped'
+					);
+				}
+			},
+
+			'out to stdout': {
+				async 'writes the bundle to stdout'() {
+					const chunks: string[] = [];
+					const stdoutStub = stub(process.stdout, 'write', (chunk: Buffer | string) => {
+						chunks.push(chunk.toString());
+						return true;
+					});
+					const consoleErrorStub = stub(console, 'error');
+					try {
+						exportArgs.out = '-';
+						await exportProject(exportArgs);
+					} finally {
+						stdoutStub.restore();
+						consoleErrorStub.restore();
+					}
+					assert.isFalse(writeFileStub.called, 'should not have written any files');
+					assert.isFalse(consoleLogStub.called, 'should not have logged to stdout');
+					assert.strictEqual(consoleErrorStub.callCount, 2, 'should have logged to stderr');
+					assert.include(consoleErrorStub.lastCall.args[0], ' to stdout');
+					assert.strictEqual(readBundle(chunks.join('')).package.name, 'test-package');
+				},
+
+				async 'cannot split the environment'() {
+					exportArgs.out = new Writable();
+					exportArgs.splitEnvironment = true;
+					await assertExportFails(
+						errors.ProjectError,
+						'The environment can only be split when exporting to a directory.'
+					);
+				}
+			},
+
+			async 'out to a writable stream'() {
+				const chunks: Buffer[] = [];
+				exportArgs.out = new Writable({
+					write(chunk: Buffer | string, encoding: string, callback: Function) {
+						chunks.push(Buffer.from(chunk));
+						callback();
+					}
+				});
+				await exportProject(exportArgs);
+				assert.isFalse(writeFileStub.called, 'should not have written any files');
+				assert.include(consoleLogStub.lastCall.args[0], ' to stream');
+				assert.isTrue((<any>exportArgs.out)._writableState.finished, 'should have ended the stream');
+				assert.strictEqual(readBundle(Buffer.concat(chunks)).package.name, 'test-package');
+			},
+
+			filename: {
+				async 'exact filename'() {
+					exportArgs.filename = 'bundle.json';
+					exportArgs.out = 'dist';
+					await exportProject(exportArgs);
+					assert.strictEqual(writeFileStub.lastCall.args[0], 'dist/bundle.json');
+				},
+
+				async template() {
+					readFileMap['package.json'] = JSON.stringify({ name: '@dojo/app', version: '1.2.0' });
+					exportArgs.filename = '{name}-{version}.project.json';
+					await exportProject(exportArgs);
+					assert.strictEqual(writeFileStub.lastCall.args[0], '@dojo-app-1.2.0.project.json');
+				},
+
+				async 'unknown token'() {
+					exportArgs.filename = '{name}-{release}.json';
+					await assertExportFails(errors.ProjectError, 'Unknown token "{release}" in filename');
+					assert.isFalse(writeFileStub.called, 'should not have written the bundle');
+				}
+			},
+
+			header: {
+				async 'records the export'() {
+					gitCommit = 'abc123';
+					await exportProject(exportArgs);
+					const { header } = JSON.parse(writeFileStub.lastCall.args[1]);
+					assert.strictEqual(header.commit, 'abc123');
+					assert.isTrue(execFileStub.calledWith('git', ['rev-parse', 'HEAD']));
+					assert.strictEqual(execFileStub.lastCall.args[2].cwd, '.');
+					assert.isAtMost(Date.now() - Date.parse(header.created), 1000);
+				},
+
+				async 'no timestamp'() {
+					exportArgs.timestamp = false;
+					await exportProject(exportArgs);
+					const bundle = JSON.parse(writeFileStub.lastCall.args[1]);
+					assert.notProperty(bundle.header, 'created');
+					assert.notProperty(bundle.header, 'commit');
+					readBundle(writeFileStub.lastCall.args[1]);
+				}
+			},
+
+			concurrency: {
+				async 'limits the files read at once'() {
+					exportArgs.concurrency = 1;
+					await exportProject(exportArgs);
+					assert.strictEqual(writeFileStub.callCount, 1, 'should have exported');
+				},
+
+				async 'must be a positive integer'() {
+					exportArgs.concurrency = -1;
+					await assertExportFails(errors.ProjectError, 'The concurrency must be a positive integer');
+				}
+			},
+
+			cache: {
+				async 'reuses files from the cache'() {
+					const statStub = stub(fs, 'stat', (name: string, callback: Function) => {
+						callback(undefined, { mtime: new Date(1000), size: 0 });
+					});
+					const fsWriteFileStub = stub(fs, 'writeFile', (...args: any[]) => args[args.length - 1]());
+					try {
+						exportArgs.cache = true;
+						await exportProject(exportArgs);
+						assert.isTrue(statStub.calledWith(join('src', 'index.html')), 'should have checked the file');
+						assert.isTrue(fsWriteFileStub.calledOnce, 'should have stored the cache');
+						assert.strictEqual(
+							fsWriteFileStub.lastCall.args[0],
+							getCacheFilename(join('.', 'node_modules', '.cache', 'cli-export-project'), '.')
+						);
+						assert.deepEqual(Object.keys(JSON.parse(fsWriteFileStub.lastCall.args[1]).files), [
+							resolve('src/index.html')
+						]);
+
+						exportArgs.cacheDir = 'cache';
+						await exportProject(exportArgs);
+						assert.strictEqual(fsWriteFileStub.lastCall.args[0], getCacheFilename('cache', '.'));
+					} finally {
+						statStub.restore();
+						fsWriteFileStub.restore();
+					}
+				},
+
+				async 'no cache'() {
+					const statStub = stub(fs, 'stat');
+					try {
+						await exportProject(exportArgs);
+						assert.isFalse(statStub.called, 'should not have used the cache');
+					} finally {
+						statStub.restore();
+					}
+				}
+			},
+
+			watch: {
+				async 'exports again when the project changes'() {
+					const clock = useFakeTimers('setTimeout', 'clearTimeout');
+					try {
+						exportArgs.watch = true;
+						await exportProject(exportArgs);
+						assert.isTrue(watchSpy.calledOnce, 'should be watching the project');
+						assert.include(consoleLogStub.lastCall.args[0], 'watching');
+
+						readFileMap['src/index.html'] = 'changed';
+						watchers[0].emit('all', 'change', 'src/index.html');
+						clock.tick(100);
+						for (let i = 0; i < 50 && writeFileStub.callCount < 2; i++) {
+							await new Promise((resolve) => setImmediate(resolve));
+						}
+					} finally {
+						clock.restore();
+					}
+					assert.strictEqual(writeFileStub.callCount, 2, 'should have exported again');
+					assert.deepEqual(readBundle(writeFileStub.lastCall.args[1]).files, [
+						{ name: './src/index.html', text: 'changed', type: ProjectFileType.HTML }
+					]);
+				},
+
+				async 'cannot stream'() {
+					exportArgs.out = new Writable();
+					exportArgs.watch = true;
+					await assertExportFails(
+						errors.ProjectError,
+						'Watch mode can only be used when exporting to a directory.'
+					);
+					assert.isFalse(watchSpy.called, 'should not be watching');
+				}
+			},
+
+			verify: {
+				async 'verifies the exported bundle'() {
+					exportArgs.verify = true;
+					await exportProject(exportArgs);
+					assert.isTrue(verifyStub.calledOnce, 'should have verified the bundle');
+					assert.strictEqual(verifyStub.lastCall.args[0], '.');
+					assert.deepEqual(verifyStub.lastCall.args[1].files, [
+						{ name: './src/index.html', text: '', type: ProjectFileType.HTML }
+					]);
+					assert.isTrue(writeFileStub.calledOnce, 'should have exported the bundle first');
+				},
+
+				async 'verifies a streamed bundle'() {
+					const chunks: Buffer[] = [];
+					exportArgs.out = new Writable({
+						write(chunk: Buffer | string, encoding: string, callback: Function) {
+							chunks.push(Buffer.from(chunk));
+							callback();
+						}
+					});
+					exportArgs.verify = true;
+					await exportProject(exportArgs);
+					assert.isTrue(chunks.length > 0, 'should have streamed the bundle');
+					assert.isTrue(verifyStub.calledOnce, 'should have verified the bundle');
+				},
+
+				async 'does not verify by default'() {
+					await exportProject(exportArgs);
+					assert.isFalse(verifyStub.called, 'should not have verified the bundle');
+				},
+
+				async 'fails when the bundle does not type check'() {
+					verifyStub.returns(Promise.reject(new errors.TypeCheckError(['error'])));
+					exportArgs.verify = true;
+					await assertExportFails(
+						errors.TypeCheckError,
+						'Bundle does not type check in isolation, diagnostics: 1.'
+					);
+				},
+
+				async 'keeps watching when the bundle does not type check'() {
+					verifyStub.returns(Promise.reject(new errors.TypeCheckError(['error'])));
+					const clock = useFakeTimers('setTimeout', 'clearTimeout');
+					try {
+						exportArgs.verify = true;
+						exportArgs.watch = true;
+						await exportProject(exportArgs);
+						assert.isTrue(watchSpy.calledOnce, 'should be watching the project');
+
+						watchers[0].emit('all', 'change', 'src/index.html');
+						clock.tick(100);
+						for (let i = 0; i < 50 && verifyStub.callCount < 2; i++) {
+							await new Promise((resolve) => setImmediate(resolve));
+						}
+					} finally {
+						clock.restore();
+					}
+					assert.strictEqual(verifyStub.callCount, 2, 'should have verified the bundle again');
+					assert.isTrue(
+						consolelogStack.some(([message]) => /errored.*does not type check/.test(message)),
+						'should have reported the failure'
+					);
+				}
+			},
+
+			async format() {
+				exportArgs.format = 'json.gz';
+				await exportProject(exportArgs);
+				assert.strictEqual(consoleLogStub.callCount, 2, 'should have only logged twice to console');
+				assert.strictEqual(
+					writeFileStub.lastCall.args[0],
+					'test-package.project.json.gz',
+					'should have written to proper path'
+				);
+				const project = JSON.parse(gunzipSync(writeFileStub.lastCall.args[1]).toString('utf8'));
+				assert.strictEqual(project.package.name, 'test-package');
+			},
+
+			async pretty() {
+				exportArgs.pretty = true;
+				await exportProject(exportArgs);
+				const text = writeFileStub.lastCall.args[1].toString();
+				assert.strictEqual(text, `${JSON.stringify(JSON.parse(text), null, '\t')}\n`);
+				assert.strictEqual(readBundle(text).package.name, 'test-package');
+			},
+
+			async expanded() {
+				globMap['src/**/*.{ts,tsx,html,css,json,xml,md}'] = ['./src/index.html', 'src/main.ts'];
+				readFileMap['src/main.ts'] = 'line 1\nline 2';
+				exportArgs.expanded = true;
+				await exportProject(exportArgs);
+				const text = writeFileStub.lastCall.args[1].toString();
+				assert.match(text, /^{\n\t"dependencies": {\n/);
+				assert.deepEqual(JSON.parse(text).files[1].text, ['line 1', 'line 2']);
+				assert.strictEqual(
+					readBundle(text).files[1].text,
+					'line 1\nline 2',
+					'should have the hash of the text'
+				);
+			},
+
 			async project() {
+				readFileMap['../other-project/package.json'] = JSON.stringify({ name: 'other-package' });
+				readFileMap['../other-project/tsconfig.json'] = JSON.stringify({ include: ['src/**/*.ts'] });
+				accessMap['../other-project/.dojorc'] = false;
+				accessMap['../other-project/tslint.json'] = false;
+				accessMap['../other-project/npm-shrinkwrap.json'] = false;
+				accessMap['../other-project/package-lock.json'] = false;
+				accessMap['../other-project/yarn.lock'] = false;
 				exportArgs.project = '../other-project';
 				await exportProject(exportArgs);
 				assert.strictEqual(consoleLogStub.callCount, 2, 'should have only logged twice to console');
+				assert.strictEqual(process.cwd(), '/var/projects/test-project', 'should not change working directory');
+				assert.strictEqual(globStub.lastCall.args[1].cwd, '../other-project', 'should glob in the project');
 				assert.strictEqual(
-					process.cwd(),
-					'/var/projects/other-project',
-					'current working directory was changed'
+					writeFileStub.lastCall.args[0],
+					'other-package.project.json',
+					'should have written to the current working directory'
 				);
+				assert.deepEqual(readBundle(writeFileStub.lastCall.args[1]).files, [
+					{ name: './src/index.html', text: '', type: ProjectFileType.HTML }
+				]);
 			},
 
 			async content() {
@@ -843,13 +1696,17 @@ registerSuite('exportProject', {
 				await exportProject(exportArgs);
 				assert.strictEqual(consoleLogStub.callCount, 2, 'should have only logged twice to console');
 				assert.deepEqual(
-					JSON.parse(writeFileStub.lastCall.args[1]),
+					readBundle(writeFileStub.lastCall.args[1]),
 					{
-						dependencies: { development: {}, production: {} },
+						dependencies: {
+							development: {},
+							production: {},
+							resolved: { development: [], production: [] }
+						},
 						environmentFiles: [],
 						files: [
-							{ name: 'src/index.ts', text: '', type: ProjectFileType.TypeScript },
-							{ name: './src/index.html', text: '', type: ProjectFileType.HTML }
+							{ name: './src/index.html', text: '', type: ProjectFileType.HTML },
+							{ name: 'src/index.ts', text: '', type: ProjectFileType.TypeScript }
 						],
 						index: './src/index.html',
 						package: { name: 'test-package' },
@@ -866,29 +1723,334 @@ registerSuite('exportProject', {
 				async 'standard args'() {
 					exportArgs.verbose = true;
 					await exportProject(exportArgs);
-					assert.strictEqual(consoleLogStub.callCount, 7, 'should have logged properly to console');
+					assert.strictEqual(consoleLogStub.callCount, 8, 'should have logged properly to console');
 				}
 			}
 		},
 
+		async 'tree shakes definition files'() {
+			globMap['src/**/*.{ts,tsx,html,css,json,xml,md}'] = ['./src/index.html', 'main.ts'];
+			readFileMap['main.ts'] = "import { mixin } from '@dojo/core/lang';";
+			exportArgs.treeShake = true;
+			await exportProject(exportArgs);
+			assert.isFalse(
+				globStub.calledWith('node_modules/{@dojo,@types}/**/*.d.ts'),
+				'should not glob all definition files'
+			);
+			assert.deepEqual(readBundle(writeFileStub.lastCall.args[1]).environmentFiles, [
+				{ name: 'node_modules/@dojo/core/lang.d.ts', text: 'lang', type: ProjectFileType.Definition }
+			]);
+		},
+
+		createProjectJson: {
+			async 'resolves to the project bundle'() {
+				const project = await createProjectJson('.');
+				assert.deepEqual(project, {
+					dependencies: { development: {}, production: {}, resolved: { development: [], production: [] } },
+					environmentFiles: [],
+					files: [{ name: './src/index.html', text: '', type: ProjectFileType.HTML }],
+					index: './src/index.html',
+					package: { name: 'test-package' },
+					tsconfig: {
+						compilerOptions: {},
+						include: ['src/**/*.ts']
+					}
+				});
+				assert.isFalse(writeFileStub.called, 'should not have written any files');
+				assert.isFalse(consoleLogStub.called, 'should not have logged');
+			},
+
+			async 'does not share state between calls running at the same time'() {
+				const statStub = stub(fs, 'stat', (name: string, callback: Function) => {
+					callback(undefined, { mtime: new Date(1000), size: 0 });
+				});
+				const fsWriteFileStub = stub(fs, 'writeFile', (...args: any[]) => args[args.length - 1]());
+				try {
+					const [first, second] = await Promise.all([
+						createProjectJson('.', { cacheDir: 'first' }),
+						createProjectJson('.', { cacheDir: 'second', concurrency: 1 })
+					]);
+					assert.deepEqual(first, second);
+					assert.sameMembers(fsWriteFileStub.args.map(([filename]) => filename), [
+						getCacheFilename('first', '.'),
+						getCacheFilename('second', '.')
+					]);
+					fsWriteFileStub.args.forEach(([, json]) => {
+						assert.deepEqual(Object.keys(JSON.parse(json).files), [resolve('src/index.html')]);
+					});
+				} finally {
+					statStub.restore();
+					fsWriteFileStub.restore();
+				}
+			},
+
+			async 'reads the project from the supplied root'() {
+				readFileMap['/var/projects/other-project/package.json'] = JSON.stringify({ name: 'other-package' });
+				readFileMap['/var/projects/other-project/tsconfig.json'] = JSON.stringify({ include: ['src/**/*.ts'] });
+				readFileMap['/var/projects/other-project/src/main.ts'] = 'main';
+				accessMap['/var/projects/other-project/.dojorc'] = false;
+				accessMap['/var/projects/other-project/tslint.json'] = false;
+				accessMap['/var/projects/other-project/npm-shrinkwrap.json'] = false;
+				accessMap['/var/projects/other-project/package-lock.json'] = false;
+				accessMap['/var/projects/other-project/yarn.lock'] = false;
+				globMap['src/**/*.{ts,html}'] = ['./src/index.html', 'src/main.ts'];
+
+				const project = await createProjectJson('/var/projects/other-project', { content: 'ts,html' });
+				assert.deepEqual(project.package, { name: 'other-package' });
+				assert.deepEqual(project.files, [
+					{ name: './src/index.html', text: '', type: ProjectFileType.HTML },
+					{ name: 'src/main.ts', text: 'main', type: ProjectFileType.TypeScript }
+				]);
+				assert.strictEqual(process.cwd(), '/var/projects/test-project', 'should not change working directory');
+			},
+
+			async 'resolves packages from the supplied root'() {
+				readFileMap['/var/projects/other-project/package.json'] = JSON.stringify({
+					name: 'other-package',
+					dependencies: { dep1: '^1.0.0' }
+				});
+				readFileMap['/var/projects/other-project/tsconfig.json'] = JSON.stringify({
+					compilerOptions: { types: ['foo'] },
+					include: ['src/**/*.ts']
+				});
+				readFileMap['/var/projects/other-project/node_modules/foo/package.json'] = JSON.stringify({
+					types: 'foo.d.ts'
+				});
+				accessMap['/var/projects/other-project/.dojorc'] = false;
+				accessMap['/var/projects/other-project/tslint.json'] = false;
+				accessMap['/var/projects/other-project/npm-shrinkwrap.json'] = false;
+				accessMap['/var/projects/other-project/package-lock.json'] = false;
+				accessMap['/var/projects/other-project/yarn.lock'] = false;
+
+				const project = await createProjectJson('/var/projects/other-project');
+				assert.deepEqual(project.environmentFiles.map(({ name }) => name), [
+					'node_modules/foo/foo.d.ts',
+					'node_modules/foo/package.json'
+				]);
+				assert.deepEqual(project.dependencies.production, { dep1: '^1.0.0' });
+			},
+
+			async 'transpiles the project files'() {
+				globMap['src/**/*.{ts,tsx,html,css,json,xml,md}'] = [
+					'./src/index.html',
+					'src/main.ts',
+					'src/main.d.ts'
+				];
+				readFileMap['src/main.ts'] = 'export const main: string = "main";';
+				readFileMap['tsconfig.json'] = JSON.stringify({
+					compilerOptions: { module: 'commonjs', outDir: '_build' },
+					include: ['src/**/*.ts']
+				});
+				resolveMap['typescript'] = require.resolve('typescript');
+
+				const project = await createProjectJson('.', { transpile: true });
+				assert.deepEqual(project.files.map(({ name, type }) => [name, type]), [
+					['./src/index.html', ProjectFileType.HTML],
+					['src/main.d.ts', ProjectFileType.Definition],
+					['src/main.js', ProjectFileType.JavaScript],
+					['src/main.js.map', ProjectFileType.SourceMap],
+					['src/main.ts', ProjectFileType.TypeScript]
+				]);
+				const [, , js, map] = project.files;
+				assert.include(js.text, 'exports.main = "main";');
+				assert.include(js.text, '//# sourceMappingURL=main.js.map');
+				assert.deepEqual(JSON.parse(map.text).sources, ['main.ts']);
+			},
+
+			async 'warns about syntax errors when transpiling'() {
+				globMap['src/**/*.{ts,tsx,html,css,json,xml,md}'] = ['./src/index.html', 'src/main.ts'];
+				readFileMap['src/main.ts'] = 'const main = ;';
+				resolveMap['typescript'] = require.resolve('typescript');
+
+				const onWarning = stub();
+				const project = await createProjectJson('.', { onWarning, transpile: true });
+				assert.lengthOf(project.files, 4);
+				assert.isTrue(onWarning.calledOnce);
+				assert.include(onWarning.lastCall.args[0], 'src/main.ts(1,14): error TS1109: Expression expected.');
+				assert.isFalse(consoleLogStub.called, 'should not have logged the warning');
+
+				try {
+					await createProjectJson('.', { strict: true, transpile: true });
+				} catch (e) {
+					assert.instanceOf(e, errors.StrictModeError);
+					return;
+				}
+				assert.fail('should have rejected');
+			},
+
+			async 'replaces project files with the transpiled files'() {
+				globMap['src/**/*.{ts,tsx,html,css,json,xml,md,js}'] = [
+					'./src/index.html',
+					'src/main.js',
+					'src/main.ts'
+				];
+				readFileMap['src/main.js'] = 'stale';
+				resolveMap['typescript'] = require.resolve('typescript');
+
+				const onWarning = stub();
+				const project = await createProjectJson('.', {
+					content: 'ts,tsx,html,css,json,xml,md,js',
+					onWarning,
+					transpile: true
+				});
+				assert.deepEqual(project.files.map(({ name }) => name), [
+					'./src/index.html',
+					'src/main.js',
+					'src/main.js.map',
+					'src/main.ts'
+				]);
+				assert.strictEqual(project.files[1].type, ProjectFileType.JavaScript);
+				assert.include(onWarning.lastCall.args[0], '"src/main.js" is replaced by the transpiled output');
+			},
+
+			async 'rejects when TypeScript cannot be resolved to transpile'() {
+				resolveMap['typescript'] = 'err';
+				try {
+					await createProjectJson('.', { transpile: true });
+				} catch (e) {
+					assert.instanceOf(e, errors.UnresolvablePackageError);
+					assert.strictEqual(e.message, 'Unable to resolve package "typescript".');
+					return;
+				}
+				assert.fail('should have rejected');
+			},
+
+			async 'rejects with a ProjectError'() {
+				accessMap['package.json'] = false;
+				try {
+					await createProjectJson('.');
+				} catch (e) {
+					assert.instanceOf(e, errors.MissingConfigError);
+					return;
+				}
+				assert.fail('should have rejected');
+			}
+		},
+
+		updateProjectJson: {
+			async 'reads only the changed project files'() {
+				globMap['src/**/*.{ts,tsx,html,css,json,xml,md}'] = ['./src/index.html', 'src/main.ts', 'src/other.ts'];
+				readFileMap['src/main.ts'] = 'main';
+				readFileMap['src/other.ts'] = 'other';
+				const project = await createProjectJson('.');
+
+				readFileMap['src/main.ts'] = 'changed';
+				readFileMap['src/other.ts'] = 'other changed';
+				readFileStub.reset();
+				globStub.reset();
+				const updated = await updateProjectJson('.', project, ['src/main.ts']);
+				assert.deepEqual(updated.files, [
+					{ name: './src/index.html', text: '', type: ProjectFileType.HTML },
+					{ name: 'src/main.ts', text: 'changed', type: ProjectFileType.TypeScript },
+					{ name: 'src/other.ts', text: 'other', type: ProjectFileType.TypeScript }
+				]);
+				assert.isTrue(readFileStub.calledOnce, 'should only have read the changed file');
+				assert.isTrue(globStub.calledOnce, 'should only have globbed the project files');
+				assert.strictEqual(project.files[1].text, 'main', 'should not have modified the project');
+			},
+
+			async 'transpiles only the changed project files'() {
+				globMap['src/**/*.{ts,tsx,html,css,json,xml,md}'] = ['./src/index.html', 'src/main.ts', 'src/other.ts'];
+				readFileMap['src/main.ts'] = 'export const main = 1;';
+				readFileMap['src/other.ts'] = 'export const other = 1;';
+				resolveMap['typescript'] = require.resolve('typescript');
+				const project = await createProjectJson('.', { transpile: true });
+
+				readFileMap['src/main.ts'] = 'export const main = 2;';
+				const updated = await updateProjectJson('.', project, ['src/main.ts'], {
+					transpile: true,
+					verbose: true
+				});
+				assert.deepEqual(updated.files.map(({ name }) => name), project.files.map(({ name }) => name));
+				assert.include(updated.files[1].text, 'exports.main = 2;');
+				assert.notStrictEqual(updated.files[2], project.files[2], 'should have a new source map');
+				assert.strictEqual(updated.files[4], project.files[4], 'should have reused the unchanged file');
+				assert.strictEqual(updated.files[5], project.files[5], 'should have reused the unchanged source map');
+				assert.isFalse(
+					consoleLogStub.args.some(([message]) => /removing/.test(message)),
+					'should not have removed the transpiled files'
+				);
+
+				globMap['src/**/*.{ts,tsx,html,css,json,xml,md}'] = ['./src/index.html', 'src/main.ts'];
+				const removed = await updateProjectJson('.', updated, ['src/other.ts'], { transpile: true });
+				assert.deepEqual(removed.files.map(({ name }) => name), [
+					'./src/index.html',
+					'src/main.js',
+					'src/main.js.map',
+					'src/main.ts'
+				]);
+			},
+
+			async 'adds and removes project files'() {
+				globMap['src/**/*.{ts,tsx,html,css,json,xml,md}'] = ['./src/index.html', 'src/removed.ts'];
+				const project = await createProjectJson('.');
+
+				globMap['src/**/*.{ts,tsx,html,css,json,xml,md}'] = ['./src/index.html', 'src/added.ts'];
+				readFileMap['src/added.ts'] = 'added';
+				const updated = await updateProjectJson('.', project, ['src/removed.ts', 'src/added.ts']);
+				assert.deepEqual(updated.files.map(({ name }) => name), ['./src/index.html', 'src/added.ts']);
+			},
+
+			async 'adds definition files which become reachable'() {
+				globMap['src/**/*.{ts,tsx,html,css,json,xml,md}'] = ['./src/index.html', 'main.ts'];
+				const project = await createProjectJson('.', { treeShake: true });
+				assert.deepEqual(project.environmentFiles, []);
+
+				readFileMap['main.ts'] = "import { mixin } from '@dojo/core/lang';";
+				const updated = await updateProjectJson('.', project, ['main.ts'], { treeShake: true });
+				assert.deepEqual(updated.environmentFiles, [
+					{ name: 'node_modules/@dojo/core/lang.d.ts', text: 'lang', type: ProjectFileType.Definition }
+				]);
+				assert.deepEqual(project.environmentFiles, [], 'should not have modified the project');
+			},
+
+			async 'reads the changed .dojorc'() {
+				const project = await createProjectJson('.');
+				accessMap['.dojorc'] = true;
+				readFileMap['.dojorc'] = JSON.stringify({ 'build-webpack': { locale: 'en' } });
+				const updated = await updateProjectJson('.', project, ['.dojorc']);
+				assert.deepEqual(updated.dojorc, { 'build-webpack': { locale: 'en' } });
+
+				accessMap['.dojorc'] = false;
+				assert.notProperty(await updateProjectJson('.', updated, ['.dojorc']), 'dojorc');
+			},
+
+			async 'creates the bundle again when package.json changes'() {
+				const project = await createProjectJson('.');
+				readFileMap['package.json'] = JSON.stringify({ name: 'renamed-package' });
+				globStub.reset();
+				const updated = await updateProjectJson('.', project, ['package.json']);
+				assert.deepEqual(updated.package, { name: 'renamed-package' });
+				assert.isTrue(globStub.calledWith('node_modules/{@dojo,@types}/**/*.d.ts'));
+			},
+
+			async 'rejects when the index is removed'() {
+				const project = await createProjectJson('.');
+				globMap['src/**/*.{ts,tsx,html,css,json,xml,md}'] = [];
+				try {
+					await updateProjectJson('.', project, ['./src/index.html']);
+				} catch (e) {
+					assert.instanceOf(e, errors.MissingIndexError);
+					return;
+				}
+				assert.fail('update should have failed');
+			}
+		},
+
 		'error conditions': {
 			async 'package.json missing'() {
 				accessMap['package.json'] = false;
-				await exportProject(exportArgs);
-				assert.strictEqual(consoleLogStub.callCount, 3, 'should have logged properly to console');
-				assert.include(
-					consoleLogStub.getCall(1).args[0],
-					'Error: Path "/var/projects/test-project" does not contain a "tsconfig.json" and "package.json".'
+				await assertExportFails(
+					errors.MissingConfigError,
+					'Path "/var/projects/test-project" does not contain a "tsconfig.json" and "package.json".'
 				);
 			},
 
 			async 'tsconfig.json missing'() {
 				accessMap['tsconfig.json'] = false;
-				await exportProject(exportArgs);
-				assert.strictEqual(consoleLogStub.callCount, 3, 'should have logged properly to console');
-				assert.include(
-					consoleLogStub.getCall(1).args[0],
-					'Error: Path "/var/projects/test-project" does not contain a "tsconfig.json" and "package.json".'
+				await assertExportFails(
+					errors.MissingConfigError,
+					'Path "/var/projects/test-project" does not contain a "tsconfig.json" and "package.json".'
 				);
 			},
 
@@ -899,35 +2061,103 @@ registerSuite('exportProject', {
 					}
 				});
 				readFileMap['node_modules/typescript/lib/lib.foo.d.ts'] = 'err';
-				await exportProject(exportArgs);
-				assert.strictEqual(consoleLogStub.callCount, 3, 'should have logged properly to the console');
-				assert.include(consoleLogStub.getCall(1).args[0], 'Error: file not found');
+				await assertExportFails(
+					errors.UnreadableFileError,
+					'Unable to read "node_modules/typescript/lib/lib.foo.d.ts": file not found'
+				);
+			},
+
+			async 'error parsing a configuration file'() {
+				accessMap['.dojorc'] = true;
+				readFileMap['.dojorc'] = '{\n\t"build-webpack": {\n\t\t"locale": "en"\n\t\t"bundles": {}\n\t}\n}';
+				await assertExportFails(errors.ProjectError, 'Unable to parse ".dojorc" (4:3): ');
+				assert.isFalse(writeFileStub.called, 'should not have written the bundle');
+			},
+
+			async 'error resolving a types package'() {
+				readFileMap['tsconfig.json'] = JSON.stringify({
+					compilerOptions: { types: ['missing'] },
+					include: ['src/**/*.ts']
+				});
+				resolveMap['missing/package.json'] = 'err';
+				await assertExportFails(errors.UnresolvablePackageError, 'Unable to resolve package "missing".');
+			},
+
+			async 'error resolving the typings of a types package'() {
+				readFileMap['tsconfig.json'] = JSON.stringify({
+					compilerOptions: { types: ['foo'] },
+					include: ['src/**/*.ts']
+				});
+				resolveMap['foo/foo.d.ts'] = 'err';
+				await assertExportFails(
+					errors.UnresolvablePackageError,
+					'Unable to resolve the typings "foo.d.ts" of package "foo".'
+				);
 			},
 
 			async 'error writing a file'() {
 				readFileMap['package.json'] = JSON.stringify({ name: 'err' });
-				await exportProject(exportArgs);
-				assert.strictEqual(consoleLogStub.callCount, 3, 'should have logged properly to the console');
-				assert.include(consoleLogStub.getCall(1).args[0], 'Error: error writing file');
+				await assertExportFails(errors.ProjectError, 'error writing file');
+			},
+
+			async 'error writing to a stream'() {
+				exportArgs.out = new Writable({
+					write(chunk: Buffer | string, encoding: string, callback: Function) {
+						callback(new Error('stream closed'));
+					}
+				});
+				await assertExportFails(errors.ProjectError, 'Unable to write bundle: stream closed');
 			},
 
 			async 'error with glob'() {
 				globMap['src/**/*.{ts,html}'] = ['err'];
 				exportArgs.content = 'ts,html';
-				await exportProject(exportArgs);
-				assert.strictEqual(consoleLogStub.callCount, 3, 'should have logged properly to the console');
-				assert.include(consoleLogStub.getCall(1).args[0], 'Error: glob error');
+				await assertExportFails(errors.ProjectError, 'glob error');
 			},
 
 			async 'error not resolving project index'() {
 				globMap['src/**/*.{ts,html}'] = ['src/index.ts'];
 				exportArgs.content = 'ts,html';
-				await exportProject(exportArgs);
-				assert.strictEqual(consoleLogStub.callCount, 3, 'should have logged properly to the console');
-				assert.include(
-					consoleLogStub.getCall(1).args[0],
-					'unable to find index "./src/index.html" in project.'
+				await assertExportFails(
+					errors.MissingIndexError,
+					'Unable to find index "./src/index.html" in project.'
+				);
+				assert.isFalse(writeFileStub.called, 'should not have written the bundle');
+			},
+
+			async 'logs the stack of an error when verbose'() {
+				accessMap['package.json'] = false;
+				exportArgs.verbose = true;
+				try {
+					await exportProject(exportArgs);
+				} catch (e) {
+					assert.include(
+						consoleLogStub.lastCall.args[0],
+						'MissingConfigError: Path "/var/projects/test-project"'
+					);
+					return;
+				}
+				assert.fail('export should have failed');
+			}
+		},
+
+		'strict mode': {
+			async 'fails on warnings'() {
+				readFileMap['tsconfig.json'] = JSON.stringify({
+					compilerOptions: { types: ['baz'] },
+					include: ['src/**/*.ts']
+				});
+				exportArgs.strict = true;
+				await assertExportFails(
+					errors.StrictModeError,
+					'"node_modules/baz/package.json" does not contain type information (warnings are errors in strict mode)'
 				);
+			},
+
+			async 'succeeds without warnings'() {
+				exportArgs.strict = true;
+				await exportProject(exportArgs);
+				assert.strictEqual(writeFileStub.callCount, 1, 'project should have been written');
 			}
 		}
 	}
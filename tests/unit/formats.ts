@@ -0,0 +1,398 @@
+const { registerSuite } = intern.getInterface('object');
+const { assert } = intern.getPlugin('chai');
+
+import { createHash } from 'crypto';
+import { stub, SinonStub } from 'sinon';
+import { Writable } from 'stream';
+import { gunzipSync } from 'zlib';
+import * as JSZip from 'jszip';
+
+import * as fs from 'fs';
+
+import { ProjectError } from '../../src/errors';
+import {
+	compareFiles,
+	getBundleFilename,
+	getBundleFormat,
+	getBundleHash,
+	getProjectFilename,
+	parseBundle,
+	readBundle,
+	sanitizeFilename,
+	sortKeys,
+	stringifyBundle,
+	stringifyJson,
+	writeBundle,
+	BundleFormat,
+	BundleLayout
+} from '../../src/formats';
+import { EnvironmentJson, ProjectFileType, ProjectJson } from '../../src/interfaces/project.json';
+
+let readFileStub: SinonStub;
+let fileMap: { [filename: string]: Buffer };
+
+const project: ProjectJson = {
+	dependencies: { development: {}, production: { foo: '^1.0.0' } },
+	environmentFiles: [
+		{ name: 'lib.es2015.d.ts', text: 'lib', type: ProjectFileType.Lib },
+		{ name: 'node_modules/@types/chai/index.d.ts', text: 'chai', type: ProjectFileType.Definition }
+	],
+	files: [
+		{ name: './src/index.html', text: '<html></html>', type: ProjectFileType.HTML },
+		{ name: 'src/main.ts', text: 'main', type: ProjectFileType.TypeScript }
+	],
+	index: './src/index.html',
+	package: { name: 'test-package' },
+	tsconfig: { compilerOptions: {} }
+};
+
+/**
+ * An async function which writes a bundle to a stream, resolving to everything that was written
+ * @param bundle The bundle to write
+ * @param format The format to write the bundle in
+ * @param layout The layout of the JSON of the bundle
+ */
+async function serialize(bundle: ProjectJson | EnvironmentJson, format: BundleFormat, layout?: BundleLayout) {
+	const chunks: Buffer[] = [];
+	const stream = new Writable({
+		write(chunk: Buffer | string, encoding: string, callback: Function) {
+			chunks.push(Buffer.from(chunk));
+			callback();
+		}
+	});
+	await writeBundle(stream, bundle, format, true, layout);
+	return Buffer.concat(chunks);
+}
+
+registerSuite('formats', {
+	getBundleFilename() {
+		assert.strictEqual(getBundleFilename('test-package', 'json'), 'test-package.project.json');
+		assert.strictEqual(getBundleFilename('test-package', 'json.gz'), 'test-package.project.json.gz');
+		assert.strictEqual(getBundleFilename('test-package', 'zip'), 'test-package.project.zip');
+		assert.strictEqual(getBundleFilename('abc123', 'json.gz', 'environment'), 'abc123.environment.json.gz');
+	},
+
+	getBundleFormat() {
+		assert.strictEqual(getBundleFormat('test-package.project.json'), 'json');
+		assert.strictEqual(getBundleFormat('test-package.project.json.gz'), 'json.gz');
+		assert.strictEqual(getBundleFormat('test-package.project.ZIP'), 'zip');
+		assert.strictEqual(getBundleFormat('test-package'), 'json');
+	},
+
+	compareFiles() {
+		const files = [
+			{ name: 'src/main.ts', text: '', type: ProjectFileType.TypeScript },
+			{ name: 'b.d.ts', text: '', type: ProjectFileType.Lib },
+			{ name: 'b.d.ts', text: '', type: ProjectFileType.Definition },
+			{ name: './src/index.html', text: '', type: ProjectFileType.HTML }
+		];
+		assert.deepEqual(files.sort(compareFiles), [
+			{ name: './src/index.html', text: '', type: ProjectFileType.HTML },
+			{ name: 'b.d.ts', text: '', type: ProjectFileType.Definition },
+			{ name: 'b.d.ts', text: '', type: ProjectFileType.Lib },
+			{ name: 'src/main.ts', text: '', type: ProjectFileType.TypeScript }
+		]);
+	},
+
+	sortKeys() {
+		assert.deepEqual(Object.keys(sortKeys({ b: 1, a: { d: 1, c: 2 } })), ['a', 'b']);
+	},
+
+	stringifyJson() {
+		assert.strictEqual(
+			stringifyJson({ b: [{ d: 1, c: 2 }], a: { f: null, e: 'e' } }),
+			'{"a":{"e":"e","f":null},"b":[{"c":2,"d":1}]}'
+		);
+	},
+
+	getBundleHash() {
+		assert.strictEqual(
+			getBundleHash(project),
+			createHash('sha256')
+				.update(JSON.stringify(project))
+				.digest('hex')
+		);
+	},
+
+	sanitizeFilename() {
+		assert.strictEqual(sanitizeFilename('@dojo/widgets/button'), '@dojo-widgets-button');
+		assert.strictEqual(sanitizeFilename('a\\b:c*d?"e<f>g|h\u0000'), 'a-bcdefgh');
+		assert.strictEqual(sanitizeFilename('../up'), '-up');
+		assert.strictEqual(sanitizeFilename('...'), '');
+	},
+
+	getProjectFilename: {
+		'defaults to the package name'() {
+			assert.strictEqual(getProjectFilename(project, 'zip'), 'test-package.project.zip');
+			assert.strictEqual(
+				getProjectFilename({ ...project, package: { name: '@scope/a/b' } }, 'json'),
+				'@scope-a-b.project.json'
+			);
+			assert.strictEqual(getProjectFilename({ ...project, package: {} }, 'json'), 'bundle.project.json');
+		},
+
+		'exact filename'() {
+			assert.strictEqual(getProjectFilename(project, 'json', 'app.json'), 'app.json');
+		},
+
+		tokens() {
+			const versioned = { ...project, package: { name: '@scope/app', version: '1.0.0-beta/1' } };
+			assert.strictEqual(
+				getProjectFilename(
+					versioned,
+					'json',
+					'{name}_{version}_{hash}_{date}.json',
+					new Date(Date.UTC(2018, 0, 2))
+				),
+				`@scope-app_1.0.0-beta-1_${getBundleHash(versioned).slice(0, 8)}_2018-01-02.json`
+			);
+		},
+
+		'hash of a bundle with a header'() {
+			const header = { exporter: '1.0.0', hash: '0123456789abcdef', schema: 1 };
+			assert.strictEqual(getProjectFilename({ ...project, header }, 'json', '{hash}.json'), '01234567.json');
+		},
+
+		'missing version'() {
+			const consoleLogStub = stub(console, 'log');
+			try {
+				assert.strictEqual(
+					getProjectFilename(project, 'json', '{name}@{version}.json'),
+					'test-package@0.0.0.json'
+				);
+			} finally {
+				consoleLogStub.restore();
+			}
+			assert.include(consoleLogStub.lastCall.args[0], '"package.json" does not have a version');
+		},
+
+		'unknown token'() {
+			assert.throws(
+				() => getProjectFilename(project, 'json', '{name}-{}.json'),
+				ProjectError,
+				'Unknown token "{}" in filename "{name}-{}.json".'
+			);
+		}
+	},
+
+	stringifyBundle: {
+		'is the same as stringifyJson'() {
+			const bundle = { tslint: {}, ...project, dojorc: undefined };
+			assert.strictEqual([...stringifyBundle(bundle)].join(''), stringifyJson(bundle));
+			assert.strictEqual([...stringifyBundle({ environmentFiles: [] })].join(''), '{"environmentFiles":[]}');
+		},
+
+		'keeps the order of the embedded configurations'() {
+			const exports = { '.': { types: './index.d.ts', import: './index.mjs', default: './index.js' } };
+			const bundle = {
+				...project,
+				dependencies: { development: { b: '1', a: '1' }, production: {} },
+				package: { name: 'test-package', exports },
+				tsconfig: { include: ['src/**/*.ts'], compilerOptions: { target: 'es2016', lib: ['es2015'] } }
+			};
+			const json = [...stringifyBundle(bundle)].join('');
+			assert.include(
+				json,
+				'"exports":{".":{"types":"./index.d.ts","import":"./index.mjs","default":"./index.js"}}'
+			);
+			assert.include(json, '"tsconfig":{"include":["src/**/*.ts"],"compilerOptions":{"target":"es2016"');
+			assert.include(json, '"development":{"a":"1","b":"1"}');
+			assert.deepEqual(Object.keys(JSON.parse(json)), Object.keys(bundle).sort());
+		},
+
+		'yields a chunk for each file'() {
+			const chunks = [...stringifyBundle(project)];
+			assert.include(chunks, JSON.stringify(project.files[0]));
+			assert.include(chunks, `,${JSON.stringify(project.environmentFiles[1])}`);
+		},
+
+		'pretty layout'() {
+			const bundle = { ...project, environmentFiles: [], tslint: { rules: { semicolon: true } } };
+			assert.strictEqual([...stringifyBundle(bundle, 'pretty')].join(''), `${stringifyJson(bundle, '\t')}\n`);
+			assert.strictEqual([...stringifyBundle(<EnvironmentJson>{}, 'pretty')].join(''), '{}\n');
+		},
+
+		'expanded layout'() {
+			const bundle = {
+				...project,
+				files: [{ name: 'src/main.ts', text: 'a\nb', type: ProjectFileType.TypeScript }]
+			};
+			const json = [...stringifyBundle(bundle, 'expanded')].join('');
+			assert.include(json, '\t\t\t"text": [\n\t\t\t\t"a",\n\t\t\t\t"b"\n\t\t\t],\n');
+			assert.deepEqual(JSON.parse(json).environmentFiles[0].text, ['lib']);
+			assert.deepEqual(parseBundle(json), bundle);
+		}
+	},
+
+	parseBundle: {
+		'compact layout'() {
+			assert.deepEqual(parseBundle(JSON.stringify(project)), project);
+		},
+
+		'leaves invalid files to be validated'() {
+			const json = JSON.stringify({ files: [{ name: 'src/main.ts', text: ['a', 1] }, null] });
+			assert.deepEqual(<any>parseBundle(json), { files: [{ name: 'src/main.ts', text: ['a', 1] }, null] });
+			assert.isNull(parseBundle('null'));
+		}
+	},
+
+	writeBundle: {
+		async json() {
+			assert.strictEqual((await serialize(project, 'json')).toString('utf8'), JSON.stringify(project));
+		},
+
+		async 'json.gz'() {
+			const result = await serialize(project, 'json.gz');
+			assert.strictEqual(gunzipSync(result).toString('utf8'), JSON.stringify(project));
+		},
+
+		async 'pretty json.gz'() {
+			const result = await serialize(project, 'json.gz', 'pretty');
+			assert.strictEqual(gunzipSync(result).toString('utf8'), `${JSON.stringify(project, null, '\t')}\n`);
+		},
+
+		async 'does not end the stream when requested'() {
+			const stream = new Writable({
+				write(chunk: Buffer | string, encoding: string, callback: Function) {
+					callback();
+				}
+			});
+			await writeBundle(stream, project, 'json', false);
+			assert.isFalse((<any>stream)._writableState.ended);
+		},
+
+		async zip() {
+			const zip = await new JSZip().loadAsync(await serialize(project, 'zip'));
+			assert.sameMembers(Object.keys(zip.files), [
+				'environmentFiles/lib.es2015.d.ts',
+				'environmentFiles/node_modules/@types/chai/index.d.ts',
+				'files/src/index.html',
+				'files/src/main.ts',
+				'manifest.json'
+			]);
+			assert.strictEqual(await zip.file('files/src/main.ts')!.async('string'), 'main');
+			assert.strictEqual(await zip.file('environmentFiles/lib.es2015.d.ts')!.async('string'), 'lib');
+			assert.strictEqual(zip.file('files/src/main.ts')!.date.getTime(), Date.UTC(1980, 0, 1));
+
+			const manifest = JSON.parse(await zip.file('manifest.json')!.async('string'));
+			assert.deepEqual(manifest, {
+				dependencies: project.dependencies,
+				environmentFiles: [
+					{ name: 'lib.es2015.d.ts', path: 'environmentFiles/lib.es2015.d.ts', type: ProjectFileType.Lib },
+					{
+						name: 'node_modules/@types/chai/index.d.ts',
+						path: 'environmentFiles/node_modules/@types/chai/index.d.ts',
+						type: ProjectFileType.Definition
+					}
+				],
+				files: [
+					{ name: './src/index.html', path: 'files/src/index.html', type: ProjectFileType.HTML },
+					{ name: 'src/main.ts', path: 'files/src/main.ts', type: ProjectFileType.TypeScript }
+				],
+				index: './src/index.html',
+				package: project.package,
+				tsconfig: project.tsconfig
+			});
+		},
+
+		async 'pretty zip'() {
+			const zip = await new JSZip().loadAsync(await serialize(project, 'zip', 'expanded'));
+			const manifest = await zip.file('manifest.json')!.async('string');
+			assert.strictEqual(manifest, `${stringifyJson(JSON.parse(manifest), '\t')}\n`);
+			assert.strictEqual(await zip.file('files/src/main.ts')!.async('string'), 'main');
+		},
+
+		async 'zip of an environment bundle'() {
+			const environment = { environmentFiles: project.environmentFiles };
+			const zip = await new JSZip().loadAsync(await serialize(environment, 'zip'));
+			assert.sameMembers(Object.keys(zip.files).filter((path) => !zip.files[path].dir), [
+				'environmentFiles/lib.es2015.d.ts',
+				'environmentFiles/node_modules/@types/chai/index.d.ts',
+				'manifest.json'
+			]);
+			assert.deepEqual(JSON.parse(await zip.file('manifest.json')!.async('string')), {
+				environmentFiles: [
+					{ name: 'lib.es2015.d.ts', path: 'environmentFiles/lib.es2015.d.ts', type: ProjectFileType.Lib },
+					{
+						name: 'node_modules/@types/chai/index.d.ts',
+						path: 'environmentFiles/node_modules/@types/chai/index.d.ts',
+						type: ProjectFileType.Definition
+					}
+				]
+			});
+		}
+	},
+
+	readBundle: {
+		beforeEach() {
+			fileMap = {};
+			readFileStub = stub(fs, 'readFile', (name: string, callback: Function) => {
+				if (name in fileMap) {
+					callback(undefined, fileMap[name]);
+				} else {
+					callback(Object.assign(new Error('ENOENT: not found'), { code: 'ENOENT' }));
+				}
+			});
+		},
+
+		afterEach() {
+			readFileStub.restore();
+		},
+
+		tests: {
+			async json() {
+				fileMap['app.project.json'] = await serialize(project, 'json');
+				assert.deepEqual(await readBundle('app.project.json'), project);
+			},
+
+			async 'json.gz'() {
+				fileMap['app.project.json.gz'] = await serialize(project, 'json.gz');
+				assert.deepEqual(await readBundle('app.project.json.gz'), project);
+			},
+
+			async 'expanded json.gz'() {
+				fileMap['app.project.json.gz'] = await serialize(project, 'json.gz', 'expanded');
+				assert.deepEqual(await readBundle('app.project.json.gz'), project);
+			},
+
+			async zip() {
+				fileMap['app.project.zip'] = await serialize(project, 'zip');
+				assert.deepEqual(await readBundle('app.project.zip'), project);
+			},
+
+			async 'zip of an environment bundle'() {
+				const environment = { environmentFiles: project.environmentFiles };
+				fileMap['abc123.environment.zip'] = await serialize(environment, 'zip');
+				assert.deepEqual(await readBundle('abc123.environment.zip'), environment);
+			},
+
+			async 'rejects an unparseable bundle'() {
+				fileMap['app.project.zip'] = await serialize(project, 'json');
+				try {
+					await readBundle('app.project.zip');
+				} catch (e) {
+					assert.instanceOf(e, ProjectError);
+					assert.match(e.message, /^Unable to read bundle "app\.project\.zip": /);
+					return;
+				}
+				assert.fail('should have rejected');
+			},
+
+			async 'rejects a zip archive without its files'() {
+				const zip = await new JSZip().loadAsync(await serialize(project, 'zip'));
+				zip.remove('files/src/main.ts');
+				fileMap['app.project.zip'] = await zip.generateAsync({ type: 'nodebuffer' });
+				try {
+					await readBundle('app.project.zip');
+				} catch (e) {
+					assert.strictEqual(
+						e.message,
+						'Unable to read bundle "app.project.zip": the archive does not contain "files/src/main.ts"'
+					);
+					return;
+				}
+				assert.fail('should have rejected');
+			}
+		}
+	}
+});
@@ -0,0 +1,116 @@
+const { registerSuite } = intern.getInterface('object');
+const { assert } = intern.getPlugin('chai');
+
+import { stub, SinonStub } from 'sinon';
+
+import * as childProcess from 'child_process';
+import { createHash } from 'crypto';
+
+import { getBundleHash } from '../../src/formats';
+import {
+	addFileHashes,
+	addHeader,
+	getExporterVersion,
+	getFileHash,
+	getGitCommit,
+	getHeaderHash,
+	SCHEMA_VERSION
+} from '../../src/header';
+import { ProjectFileType, ProjectJson } from '../../src/interfaces/project.json';
+
+let execFileStub: SinonStub;
+let commit: string | undefined;
+
+const project: ProjectJson = {
+	dependencies: { development: {}, production: {} },
+	environmentFiles: [{ name: 'lib.es2015.d.ts', text: 'lib', type: ProjectFileType.Lib }],
+	files: [{ name: 'src/main.ts', text: 'main', type: ProjectFileType.TypeScript }],
+	index: './src/index.html',
+	package: { name: 'test-package' },
+	tsconfig: {}
+};
+
+registerSuite('header', {
+	beforeEach() {
+		commit = undefined;
+		execFileStub = stub(
+			childProcess,
+			'execFile',
+			(file: string, args: string[], options: any, callback: Function) => {
+				callback(commit ? undefined : new Error('not a git repository'), commit ? `${commit}\n` : '');
+			}
+		);
+	},
+
+	afterEach() {
+		execFileStub.restore();
+	},
+
+	tests: {
+		getFileHash() {
+			assert.strictEqual(
+				getFileHash('main'),
+				createHash('sha256')
+					.update('main')
+					.digest('hex')
+			);
+		},
+
+		addFileHashes() {
+			const hashed = addFileHashes(project);
+			assert.deepEqual(hashed.files, [
+				{ hash: getFileHash('main'), name: 'src/main.ts', text: 'main', type: ProjectFileType.TypeScript }
+			]);
+			assert.deepEqual(hashed.environmentFiles, [
+				{ hash: getFileHash('lib'), name: 'lib.es2015.d.ts', text: 'lib', type: ProjectFileType.Lib }
+			]);
+			assert.notProperty(project.files[0], 'hash', 'should not have modified the project');
+		},
+
+		getExporterVersion() {
+			assert.strictEqual(getExporterVersion(), require('../../../package.json').version);
+		},
+
+		getGitCommit: {
+			async 'resolves to the commit'() {
+				commit = 'abc123';
+				assert.strictEqual(await getGitCommit('/var/projects/test-project'), 'abc123');
+				assert.deepEqual(execFileStub.lastCall.args.slice(0, 3), [
+					'git',
+					['rev-parse', 'HEAD'],
+					{ cwd: '/var/projects/test-project' }
+				]);
+			},
+
+			async 'resolves to undefined outside of a git repository'() {
+				assert.isUndefined(await getGitCommit('.'));
+			}
+		},
+
+		addHeader: {
+			async 'adds the header'() {
+				commit = 'abc123';
+				const bundle = await addHeader('.', project);
+				const { created, hash, ...header } = bundle.header;
+				assert.deepEqual(header, { commit: 'abc123', exporter: getExporterVersion(), schema: SCHEMA_VERSION });
+				assert.isAtMost(Date.now() - Date.parse(created!), 1000);
+				assert.strictEqual(hash, getBundleHash({ ...bundle, header: { ...bundle.header, hash: '' } }));
+				assert.strictEqual(hash, getHeaderHash(bundle));
+				assert.notProperty(project, 'header', 'should not have modified the project');
+			},
+
+			async 'without a timestamp'() {
+				const first = await addHeader('.', project, false);
+				const second = await addHeader('.', project, false);
+				assert.isUndefined(first.header.created);
+				assert.strictEqual(first.header.hash, second.header.hash);
+			},
+
+			async 'changes when the bundle changes'() {
+				const first = await addHeader('.', project, false);
+				const second = await addHeader('.', { ...project, index: 'src/other.html' }, false);
+				assert.notStrictEqual(first.header.hash, second.header.hash);
+			}
+		}
+	}
+});
@@ -0,0 +1,297 @@
+const { registerSuite } = intern.getInterface('object');
+const { assert } = intern.getPlugin('chai');
+
+import { stub, SinonStub } from 'sinon';
+
+import * as fs from 'fs';
+import * as process from 'process';
+import { Writable } from 'stream';
+
+import { splitEnvironment } from '../../src/environment';
+import { ProjectError, UnreadableFileError } from '../../src/errors';
+import { stringifyBundle, writeBundle, BundleFormat } from '../../src/formats';
+import importProject, { ImportArgs } from '../../src/importProject';
+import { EnvironmentJson, ProjectFileType, ProjectJson } from '../../src/interfaces/project.json';
+
+let accessStub: SinonStub;
+let readFileStub: SinonStub;
+let writeFileStub: SinonStub;
+let mkdirStub: SinonStub;
+let cwdStub: SinonStub;
+let consoleLogStub: SinonStub;
+let importArgs: ImportArgs;
+let accessMap: { [filename: string]: boolean };
+let readFileMap: { [filename: string]: string | Buffer };
+let writeFileMap: { [filename: string]: string };
+let mkdirs: string[];
+let project: ProjectJson;
+
+/**
+ * Serialize a bundle in a format
+ * @param bundle The project or environment bundle
+ * @param format The format to serialize the bundle in
+ */
+async function serialize(bundle: ProjectJson | EnvironmentJson, format: BundleFormat) {
+	const chunks: Buffer[] = [];
+	const stream = new Writable({
+		write(chunk: Buffer | string, encoding: string, callback: Function) {
+			chunks.push(Buffer.from(chunk));
+			callback();
+		}
+	});
+	await writeBundle(stream, bundle, format);
+	return Buffer.concat(chunks);
+}
+
+/**
+ * Assert that importing the project bundle fails with the supplied error
+ * @param ErrorClass The expected class of the error
+ * @param message Text the error message should include
+ */
+async function assertImportFails(ErrorClass: Function, message: string) {
+	try {
+		await importProject(importArgs);
+	} catch (e) {
+		assert.instanceOf(e, ErrorClass);
+		assert.include(e.message, message);
+		assert.strictEqual(e.exitCode, 1, 'should have an exit code');
+		return;
+	}
+	assert.fail('import should have failed');
+}
+
+registerSuite('importProject', {
+	before() {
+		accessStub = stub(fs, 'access', (name: string, constants: any, callback: (err?: any) => void) => {
+			if (accessMap[name]) {
+				callback();
+			} else {
+				callback(new Error('file not found!'));
+			}
+		});
+
+		readFileStub = stub(fs, 'readFile', (name: string, callback: (err?: any, data?: Buffer) => void) => {
+			if (name in readFileMap) {
+				callback(undefined, Buffer.from(<any>readFileMap[name]));
+			} else {
+				callback(new Error('file not found'));
+			}
+		});
+
+		writeFileStub = stub(
+			fs,
+			'writeFile',
+			(filename: string, contents: string, options: any, callback: (err?: any) => void) => {
+				writeFileMap[filename] = contents;
+				callback();
+			}
+		);
+
+		mkdirStub = stub(fs, 'mkdir', (path: string, callback: (err?: any) => void) => {
+			mkdirs.push(path);
+			accessMap[path] = true;
+			callback();
+		});
+
+		cwdStub = stub(process, 'cwd').returns('/var/projects');
+	},
+
+	after() {
+		accessStub.restore();
+		readFileStub.restore();
+		writeFileStub.restore();
+		mkdirStub.restore();
+		cwdStub.restore();
+	},
+
+	beforeEach() {
+		consoleLogStub = stub(console, 'log');
+
+		project = {
+			dependencies: { development: {}, production: {} },
+			environmentFiles: [
+				{ name: 'lib.es2015.d.ts', text: 'lib', type: ProjectFileType.Lib },
+				{ name: 'node_modules/@dojo/core/lang.d.ts', text: 'lang', type: ProjectFileType.Definition }
+			],
+			files: [
+				{ name: './src/index.html', text: 'html', type: ProjectFileType.HTML },
+				{ name: 'src/main.ts', text: 'main', type: ProjectFileType.TypeScript }
+			],
+			index: './src/index.html',
+			package: { name: 'test-package' },
+			tsconfig: { include: ['src/**/*.ts'] }
+		};
+
+		importArgs = {
+			bundle: 'test-package.project.json',
+			environment: false,
+			force: false,
+			out: 'test-project',
+			verbose: false
+		};
+
+		accessMap = { '/': true, '/var': true, '/var/projects': true };
+		readFileMap = { 'test-package.project.json': JSON.stringify(project) };
+		writeFileMap = {};
+		mkdirs = [];
+	},
+
+	afterEach() {
+		consoleLogStub.restore();
+
+		accessStub.reset();
+		readFileStub.reset();
+		writeFileStub.reset();
+		mkdirStub.reset();
+	},
+
+	tests: {
+		async 'writes the project files and configuration'() {
+			await importProject(importArgs);
+			assert.strictEqual(consoleLogStub.callCount, 2);
+			assert.include(consoleLogStub.lastCall.args[0], 'imported 4 files to "test-project"');
+			assert.deepEqual(writeFileMap, {
+				'/var/projects/test-project/src/index.html': 'html',
+				'/var/projects/test-project/src/main.ts': 'main',
+				'/var/projects/test-project/package.json': '{\n\t"name": "test-package"\n}\n',
+				'/var/projects/test-project/tsconfig.json': '{\n\t"include": [\n\t\t"src/**/*.ts"\n\t]\n}\n'
+			});
+			assert.deepEqual(mkdirs, ['/var/projects/test-project', '/var/projects/test-project/src']);
+		},
+
+		async 'writes the .dojorc'() {
+			project.dojorc = { 'build-webpack': { locale: 'en' } };
+			readFileMap['test-package.project.json'] = JSON.stringify(project);
+			await importProject(importArgs);
+			assert.strictEqual(
+				writeFileMap['/var/projects/test-project/.dojorc'],
+				'{\n\t"build-webpack": {\n\t\t"locale": "en"\n\t}\n}\n'
+			);
+		},
+
+		async 'writes the environment files'() {
+			project.environmentFiles.push({
+				name: '@types/foo/index.d.ts',
+				text: 'foo',
+				type: ProjectFileType.Definition
+			});
+			readFileMap['test-package.project.json'] = JSON.stringify(project);
+			importArgs.environment = true;
+			await importProject(importArgs);
+			assert.strictEqual(
+				writeFileMap['/var/projects/test-project/node_modules/typescript/lib/lib.es2015.d.ts'],
+				'lib'
+			);
+			assert.strictEqual(writeFileMap['/var/projects/test-project/node_modules/@dojo/core/lang.d.ts'], 'lang');
+			assert.strictEqual(writeFileMap['/var/projects/test-project/node_modules/@types/foo/index.d.ts'], 'foo');
+		},
+
+		async 'reads split environment bundles'() {
+			const { environment, hash, project: splitProject } = splitEnvironment(project);
+			readFileMap['bundles/test-package.project.json'] = JSON.stringify(splitProject);
+			readFileMap[`bundles/${hash}.environment.json`] = JSON.stringify(environment);
+			importArgs.bundle = 'bundles/test-package.project.json';
+			importArgs.environment = true;
+			await importProject(importArgs);
+			assert.strictEqual(
+				writeFileMap['/var/projects/test-project/node_modules/typescript/lib/lib.es2015.d.ts'],
+				'lib'
+			);
+			assert.strictEqual(writeFileMap['/var/projects/test-project/node_modules/@dojo/core/lang.d.ts'], 'lang');
+		},
+
+		async 'reads zip bundles'() {
+			readFileMap['test-package.project.zip'] = await serialize(project, 'zip');
+			importArgs.bundle = 'test-package.project.zip';
+			importArgs.environment = true;
+			await importProject(importArgs);
+			assert.strictEqual(writeFileMap['/var/projects/test-project/src/main.ts'], 'main');
+			assert.strictEqual(writeFileMap['/var/projects/test-project/node_modules/@dojo/core/lang.d.ts'], 'lang');
+		},
+
+		async 'reads split environment bundles in the format of the project bundle'() {
+			const { environment, hash, project: splitProject } = splitEnvironment(project);
+			readFileMap['test-package.project.json.gz'] = await serialize(splitProject, 'json.gz');
+			readFileMap[`${hash}.environment.json.gz`] = await serialize(environment, 'json.gz');
+			importArgs.bundle = 'test-package.project.json.gz';
+			importArgs.environment = true;
+			await importProject(importArgs);
+			assert.strictEqual(writeFileMap['/var/projects/test-project/src/main.ts'], 'main');
+			assert.strictEqual(writeFileMap['/var/projects/test-project/node_modules/@dojo/core/lang.d.ts'], 'lang');
+		},
+
+		async 'reads expanded bundles'() {
+			project.files[1].text = 'line 1\nline 2';
+			const { environment, hash, project: splitProject } = splitEnvironment(project);
+			readFileMap['test-package.project.json'] = [...stringifyBundle(splitProject, 'expanded')].join('');
+			readFileMap[`${hash}.environment.json`] = [...stringifyBundle(environment, 'expanded')].join('');
+			importArgs.environment = true;
+			await importProject(importArgs);
+			assert.strictEqual(writeFileMap['/var/projects/test-project/src/main.ts'], 'line 1\nline 2');
+			assert.strictEqual(writeFileMap['/var/projects/test-project/node_modules/@dojo/core/lang.d.ts'], 'lang');
+		},
+
+		async 'verbose output'() {
+			importArgs.verbose = true;
+			await importProject(importArgs);
+			assert.strictEqual(consoleLogStub.callCount, 7);
+		},
+
+		'error conditions': {
+			async 'bundle missing'() {
+				delete readFileMap['test-package.project.json'];
+				await assertImportFails(
+					UnreadableFileError,
+					'Unable to read "test-package.project.json": file not found'
+				);
+				assert.lengthOf(Object.keys(writeFileMap), 0);
+			},
+
+			async 'invalid bundle'() {
+				readFileMap['test-package.project.json'] = '{';
+				await assertImportFails(ProjectError, 'JSON');
+				assert.lengthOf(Object.keys(writeFileMap), 0);
+			},
+
+			async 'environment bundle does not match its hash'() {
+				const { environment, hash, project: splitProject } = splitEnvironment(project);
+				environment.environmentFiles[0].text = 'changed';
+				readFileMap['test-package.project.json'] = JSON.stringify(splitProject);
+				readFileMap[`${hash}.environment.json`] = JSON.stringify(environment);
+				importArgs.environment = true;
+				await assertImportFails(
+					ProjectError,
+					`Environment bundle "${hash}.environment.json" does not match hash "${hash}".`
+				);
+				assert.lengthOf(Object.keys(writeFileMap), 0);
+			},
+
+			async 'files already exist'() {
+				accessMap['/var/projects/test-project/package.json'] = true;
+				await assertImportFails(
+					ProjectError,
+					'Path "/var/projects/test-project" already contains "package.json". Use "--force" to overwrite.'
+				);
+				assert.lengthOf(Object.keys(writeFileMap), 0);
+			},
+
+			async 'files already exist with force'() {
+				accessMap['/var/projects/test-project/package.json'] = true;
+				importArgs.force = true;
+				await importProject(importArgs);
+				assert.strictEqual(consoleLogStub.callCount, 2);
+				assert.lengthOf(Object.keys(writeFileMap), 4);
+			},
+
+			async 'file outside of target path'() {
+				project.files.push({ name: '../escape.ts', text: '', type: ProjectFileType.TypeScript });
+				readFileMap['test-package.project.json'] = JSON.stringify(project);
+				await assertImportFails(
+					ProjectError,
+					'Bundle file "../escape.ts" resolves outside of the target path "/var/projects/test-project".'
+				);
+				assert.lengthOf(Object.keys(writeFileMap), 0);
+			}
+		}
+	}
+});
@@ -0,0 +1,125 @@
+const { registerSuite } = intern.getInterface('object');
+const { assert } = intern.getPlugin('chai');
+
+import { parseJsonc } from '../../src/json';
+
+/**
+ * Assert that parsing the supplied text throws with a message that matches the supplied pattern
+ */
+function assertParseError(text: string, message: RegExp) {
+	try {
+		parseJsonc(text, 'tsconfig.json');
+	} catch (e) {
+		assert.instanceOf(e, SyntaxError);
+		assert.match(e.message, message);
+		return;
+	}
+	assert.fail('should have thrown');
+}
+
+registerSuite('json', {
+	parseJsonc: {
+		'strict JSON'() {
+			assert.deepEqual(parseJsonc('{ "a": [1, 2], "b": { "c": "d" } }', 'tsconfig.json'), {
+				a: [1, 2],
+				b: { c: 'd' }
+			});
+		},
+
+		comments() {
+			const text = [
+				'// leading comment',
+				'{',
+				'\t/* block',
+				'\t   comment */',
+				'\t"compilerOptions": { // trailing comment',
+				'\t\t"strict": true /* inline */',
+				'\t}',
+				'}'
+			].join('\n');
+			assert.deepEqual(parseJsonc(text, 'tsconfig.json'), { compilerOptions: { strict: true } });
+		},
+
+		'trailing commas'() {
+			assert.deepEqual(parseJsonc('{ "a": [1, 2, ], "b": { "c": "d", /* comment */ }, }', 'tsconfig.json'), {
+				a: [1, 2],
+				b: { c: 'd' }
+			});
+		},
+
+		'comment characters and commas in strings'() {
+			assert.deepEqual(parseJsonc('{ "a": "// not a comment", "b": "/* nor */ this,]", "c": "\\"," }', 'x'), {
+				a: '// not a comment',
+				b: '/* nor */ this,]',
+				c: '",'
+			});
+		},
+
+		'byte order mark'() {
+			assert.deepEqual(parseJsonc('\uFEFF{ "a": 1 }', 'tsconfig.json'), { a: 1 });
+		},
+
+		errors: {
+			'reports the line and column'() {
+				assertParseError(
+					'{\n\t// comment\n\t"a": 1\n\t"b": 2\n}',
+					/^Unable to parse "tsconfig.json" \(4:2\): \w/
+				);
+			},
+
+			'reports the column of an unexpected character'() {
+				assertParseError('{ "a": 1 /* } */ }}', /^Unable to parse "tsconfig.json" \(1:19\): \w/);
+			},
+
+			'reports a missing value'() {
+				const text = ['{', '\t"compilerOptions": {', '\t\t"target": ,', '\t\t"strict": true', '\t}', '}'].join(
+					'\n'
+				);
+				assertParseError(text, /^Unable to parse "tsconfig.json" \(3:13\): Unexpected token ","$/);
+			},
+
+			'reports a missing array element'() {
+				assertParseError('[1,,2]', /^Unable to parse "tsconfig.json" \(1:4\): Unexpected token ","$/);
+			},
+
+			'reports a missing property name'() {
+				assertParseError(
+					'{ "a": 1, 2: 3 }',
+					/^Unable to parse "tsconfig.json" \(1:11\): Unexpected token "2"$/
+				);
+				assertParseError('{ "a" 1 }', /^Unable to parse "tsconfig.json" \(1:7\): Unexpected token "1"$/);
+			},
+
+			'reports invalid strings'() {
+				assertParseError('{ "a": "b }', /^Unable to parse "tsconfig.json" \(1:8\): Unterminated string$/);
+				assertParseError('{ "a": "\\x" }', /\(1:9\): Bad escaped character in string$/);
+				assertParseError('{ "a": "b\tc" }', /\(1:10\): Bad control character in string$/);
+				assertParseError('{ "a\n": 1 }', /\(1:5\): Bad control character in string$/);
+			},
+
+			'reports invalid values'() {
+				assertParseError('{ "a": undefined }', /\(1:8\): Unexpected token "u"$/);
+				assertParseError('{ "a": 01 }', /\(1:8\): Unexpected token "0"$/);
+				assertParseError('{ "a": 1 } x', /\(1:12\): Unexpected token "x"$/);
+				assertParseError('', /\(1:1\): Unexpected end of JSON input$/);
+			},
+
+			'does not include the text in the message'() {
+				try {
+					parseJsonc('{ "secret": "value", }}', 'tsconfig.json');
+				} catch (e) {
+					assert.notInclude(e.message, 'secret');
+					return;
+				}
+				assert.fail('should have thrown');
+			},
+
+			'unexpected end of input'() {
+				assertParseError(
+					'{\n\t"a": \n',
+					/^Unable to parse "tsconfig.json" \(2:6\): Unexpected end of JSON input$/
+				);
+			}
+		}
+	}
+});
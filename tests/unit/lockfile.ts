@@ -0,0 +1,201 @@
+const { registerSuite } = intern.getInterface('object');
+const { assert } = intern.getPlugin('chai');
+
+import { stub, SinonStub } from 'sinon';
+
+import * as fs from 'fs';
+
+import { createContext } from '../../src/context';
+import { StrictModeError } from '../../src/errors';
+import { readLockfile, PackageResolver } from '../../src/lockfile';
+
+let accessStub: SinonStub;
+let readFileStub: SinonStub;
+let fileMap: { [filename: string]: string };
+
+/**
+ * Read the lockfile of the project in the current directory, failing if it does not have one
+ */
+async function getResolver(): Promise<PackageResolver> {
+	const resolvePackage = await readLockfile(createContext(), '.');
+	if (!resolvePackage) {
+		throw new Error('should have read a lockfile');
+	}
+	return resolvePackage;
+}
+
+registerSuite('lockfile', {
+	before() {
+		accessStub = stub(fs, 'access', (name: string, constants: any, callback: (err?: any) => void) => {
+			callback(name in fileMap ? undefined : new Error('file not found'));
+		});
+		readFileStub = stub(
+			fs,
+			'readFile',
+			(name: string, encoding: string, callback: (err?: any, data?: string) => void) => {
+				if (name in fileMap) {
+					callback(undefined, fileMap[name]);
+				} else {
+					callback(new Error(`file not found: ${name}`));
+				}
+			}
+		);
+	},
+
+	after() {
+		accessStub.restore();
+		readFileStub.restore();
+	},
+
+	beforeEach() {
+		fileMap = {};
+	},
+
+	tests: {
+		async 'no lockfile'() {
+			assert.isUndefined(await readLockfile(createContext(), '.'));
+		},
+
+		async 'package-lock.json version 1'() {
+			fileMap['package-lock.json'] = JSON.stringify({
+				lockfileVersion: 1,
+				dependencies: {
+					a: {
+						version: '1.0.0',
+						resolved: 'https://registry.npmjs.org/a/-/a-1.0.0.tgz',
+						integrity: 'sha512-a',
+						requires: { b: '^2.0.0', c: '^1.0.0' },
+						dependencies: {
+							b: { version: '2.0.0', integrity: 'sha512-b2' }
+						}
+					},
+					b: { version: '1.0.0', integrity: 'sha512-b1' },
+					c: { version: '1.1.0', integrity: 'sha512-c' }
+				}
+			});
+
+			const resolvePackage = await getResolver();
+			const a = await resolvePackage('a', '^1.0.0');
+			assert.deepEqual(a, {
+				dependencies: { b: '^2.0.0', c: '^1.0.0' },
+				integrity: 'sha512-a',
+				location: 'node_modules/a',
+				resolved: 'https://registry.npmjs.org/a/-/a-1.0.0.tgz',
+				version: '1.0.0'
+			});
+			const nested = await resolvePackage('b', '^2.0.0', a);
+			assert.strictEqual(nested!.location, 'node_modules/a/node_modules/b');
+			assert.strictEqual(nested!.version, '2.0.0');
+			const hoisted = await resolvePackage('c', '^1.0.0', a);
+			assert.strictEqual(hoisted!.location, 'node_modules/c');
+			assert.strictEqual((await resolvePackage('b', '^1.0.0'))!.version, '1.0.0');
+			assert.isUndefined(await resolvePackage('d', '^1.0.0', a));
+		},
+
+		async 'package-lock.json version 2 and 3'() {
+			fileMap['package-lock.json'] = JSON.stringify({
+				lockfileVersion: 3,
+				packages: {
+					'': { dependencies: { '@scope/a': '^1.0.0', linked: '*' } },
+					'node_modules/@scope/a': {
+						version: '1.0.0',
+						integrity: 'sha512-a',
+						dependencies: { b: '^1.0.0' },
+						peerDependencies: { c: '^1.0.0' }
+					},
+					'node_modules/@scope/a/node_modules/b': { version: '1.2.0', integrity: 'sha512-b' },
+					'node_modules/linked': { resolved: 'packages/linked', link: true },
+					'packages/linked': { version: '0.1.0', dependencies: { b: '^1.0.0' } }
+				}
+			});
+
+			const resolvePackage = await getResolver();
+			const a = await resolvePackage('@scope/a', '^1.0.0');
+			assert.deepEqual(a!.dependencies, { b: '^1.0.0', c: '^1.0.0' });
+			assert.strictEqual(
+				(await resolvePackage('b', '^1.0.0', a))!.location,
+				'node_modules/@scope/a/node_modules/b'
+			);
+			const linked = await resolvePackage('linked', '*');
+			assert.strictEqual(linked!.location, 'packages/linked');
+			assert.strictEqual(linked!.version, '0.1.0');
+			assert.isUndefined(await resolvePackage('b', '^1.0.0', linked));
+		},
+
+		async 'npm-shrinkwrap.json takes precedence'() {
+			fileMap['npm-shrinkwrap.json'] = JSON.stringify({ packages: { 'node_modules/a': { version: '2.0.0' } } });
+			fileMap['package-lock.json'] = JSON.stringify({ packages: { 'node_modules/a': { version: '1.0.0' } } });
+
+			const resolvePackage = await getResolver();
+			assert.strictEqual((await resolvePackage('a', '*'))!.version, '2.0.0');
+		},
+
+		async 'yarn.lock version 1'() {
+			fileMap['yarn.lock'] = [
+				'# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.',
+				'# yarn lockfile v1',
+				'',
+				'',
+				'"@scope/a@^1.0.0", "@scope/a@^1.1.0":',
+				'  version "1.2.0"',
+				'  resolved "https://registry.yarnpkg.com/@scope/a/-/a-1.2.0.tgz#abc"',
+				'  integrity sha512-a',
+				'  dependencies:',
+				'    b "^2.0.0"',
+				'',
+				'b@^2.0.0:',
+				'  version "2.0.1"',
+				'  resolved "https://registry.yarnpkg.com/b/-/b-2.0.1.tgz#def"',
+				'  integrity sha512-b',
+				''
+			].join('\n');
+
+			const resolvePackage = await getResolver();
+			const a = await resolvePackage('@scope/a', '^1.1.0');
+			assert.deepEqual(a, {
+				dependencies: { b: '^2.0.0' },
+				integrity: 'sha512-a',
+				location: '@scope/a@1.2.0',
+				resolved: 'https://registry.yarnpkg.com/@scope/a/-/a-1.2.0.tgz#abc',
+				version: '1.2.0'
+			});
+			assert.deepEqual(await resolvePackage('b', '^2.0.0', a), {
+				dependencies: {},
+				integrity: 'sha512-b',
+				location: 'b@2.0.1',
+				resolved: 'https://registry.yarnpkg.com/b/-/b-2.0.1.tgz#def',
+				version: '2.0.1'
+			});
+			assert.isUndefined(await resolvePackage('b', '^3.0.0'));
+		},
+
+		'later yarn.lock versions': {
+			async 'are ignored with a warning'() {
+				const onWarning = stub();
+				fileMap['yarn.lock'] = '__metadata:\n  version: 6\n';
+				assert.isUndefined(await readLockfile(createContext({ onWarning }), '.'));
+				assert.isTrue(onWarning.calledOnce);
+				assert.include(onWarning.lastCall.args[0], '"yarn.lock" is not a version 1 lockfile');
+			},
+
+			async 'fail in strict mode'() {
+				fileMap['yarn.lock'] = '__metadata:\n  version: 6\n';
+				try {
+					await readLockfile(createContext({ strict: true }), '.');
+				} catch (e) {
+					assert.instanceOf(e, StrictModeError);
+					return;
+				}
+				assert.fail('should have thrown');
+			}
+		},
+
+		async 'relative to the project root'() {
+			fileMap['/var/projects/test-project/package-lock.json'] = JSON.stringify({
+				packages: { 'node_modules/a': { version: '1.0.0' } }
+			});
+			const resolvePackage = await readLockfile(createContext(), '/var/projects/test-project');
+			assert.strictEqual((await resolvePackage!('a', '*'))!.version, '1.0.0');
+		}
+	}
+});
@@ -2,14 +2,17 @@ const { registerSuite } = intern.getInterface('object');
 const { assert } = intern.getPlugin('chai');
 
 import { SinonStub, stub } from 'sinon';
-import { indent, log, setVerbose, verbose, verboseFlag } from '../../src/log';
+import { StrictModeError } from '../../src/errors';
+import { indent, log, setStderr, setStrict, setVerbose, strictFlag, verbose, verboseFlag, warn } from '../../src/log';
 
 let consoleLogStub: SinonStub;
 let verboseFlagInitialValue: boolean;
+let strictFlagInitialValue: boolean;
 
 registerSuite('log', {
 	before() {
 		verboseFlagInitialValue = verboseFlag;
+		strictFlagInitialValue = strictFlag;
 		consoleLogStub = stub(console, 'log');
 	},
 
@@ -19,6 +22,7 @@ registerSuite('log', {
 
 	afterEach() {
 		setVerbose(verboseFlagInitialValue);
+		setStrict(strictFlagInitialValue);
 	},
 
 	after() {
@@ -26,12 +30,28 @@ registerSuite('log', {
 	},
 
 	tests: {
-		log() {
-			log('Hello', ' World');
+		log: {
+			'logs to stdout'() {
+				log('Hello', ' World');
 
-			const actual = consoleLogStub.lastCall.args;
-			assert.lengthOf(actual, 1);
-			assert.strictEqual(actual[0], 'Hello World');
+				const actual = consoleLogStub.lastCall.args;
+				assert.lengthOf(actual, 1);
+				assert.strictEqual(actual[0], 'Hello World');
+			},
+
+			'logs to stderr when stdout is used for output'() {
+				const consoleErrorStub = stub(console, 'error');
+				setStderr(true);
+				try {
+					log('Hello', ' World');
+				} finally {
+					setStderr(false);
+					consoleErrorStub.restore();
+				}
+
+				assert.isFalse(consoleLogStub.called);
+				assert.strictEqual(consoleErrorStub.lastCall.args[0], 'Hello World');
+			}
 		},
 
 		verbose: {
@@ -53,6 +73,25 @@ registerSuite('log', {
 			}
 		},
 
+		warn: {
+			'logs when strictFlag is false'() {
+				setStrict(false);
+
+				warn('Hello World');
+				const actual = consoleLogStub.lastCall.args;
+				assert.lengthOf(actual, 1);
+				assert.include(actual[0], 'warn');
+				assert.include(actual[0], 'Hello World');
+			},
+
+			'throws when strictFlag is true'() {
+				setStrict(true);
+
+				assert.throws(() => warn('Hello World'), StrictModeError, 'Hello World');
+				assert.isFalse(consoleLogStub.called);
+			}
+		},
+
 		indent() {
 			assert.strictEqual(indent(), '  ');
 			assert.strictEqual(indent(2), '    ');
@@ -62,6 +101,11 @@ registerSuite('log', {
 		setVerbose() {
 			setVerbose(!verboseFlag);
 			assert.isFalse(verboseFlagInitialValue === verboseFlag);
+		},
+
+		setStrict() {
+			setStrict(!strictFlag);
+			assert.isFalse(strictFlagInitialValue === strictFlag);
 		}
 	}
 });
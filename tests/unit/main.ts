@@ -11,6 +11,9 @@ describe('main', () => {
 	let moduleUnderTest: any;
 	let mockModule: MockModule;
 	let mockGenerateProjectJson: any;
+	let mockValidateProject: any;
+	let mockImportProject: any;
+	let mockDiffProject: any;
 	let sandbox: sinon.SinonSandbox;
 	let mockReadFile: sinon.SinonStub;
 
@@ -21,6 +24,18 @@ describe('main', () => {
 			default: sandbox.stub().returns(Promise.resolve())
 		};
 		mockery.registerMock('./exportProject', mockGenerateProjectJson);
+		mockValidateProject = {
+			default: sandbox.stub().returns(Promise.resolve())
+		};
+		mockery.registerMock('./validate', mockValidateProject);
+		mockImportProject = {
+			default: sandbox.stub().returns(Promise.resolve())
+		};
+		mockery.registerMock('./importProject', mockImportProject);
+		mockDiffProject = {
+			default: sandbox.stub().returns(Promise.resolve())
+		};
+		mockery.registerMock('./diffProject', mockDiffProject);
 		moduleUnderTest = mockModule.getModuleUnderTest().default;
 		mockReadFile = sandbox.stub(fs, 'readFileSync');
 	});
@@ -36,10 +51,30 @@ describe('main', () => {
 
 		let untestedArguments: { [key: string]: string } = {
 			c: 'content',
+			C: 'cache',
+			d: 'cache-dir',
+			D: 'diff',
+			e: 'split-environment',
+			E: 'import-environment',
+			f: 'format',
+			F: 'force',
 			i: 'index',
+			I: 'import',
+			j: 'concurrency',
+			J: 'transpile',
+			k: 'verify',
+			n: 'filename',
 			o: 'out',
+			O: 'json',
 			p: 'project',
-			v: 'verbose'
+			P: 'pretty',
+			s: 'strict',
+			t: 'tree-shake',
+			T: 'timestamp',
+			V: 'validate',
+			v: 'verbose',
+			w: 'watch',
+			x: 'expanded'
 		};
 
 		for (let i = 0; i < options.callCount; i++) {
@@ -77,6 +112,53 @@ describe('main', () => {
 		});
 	});
 
+	it('should validate the supplied bundle', () => {
+		const runTestArgs = { validate: 'app.project.json', verbose: true };
+		return moduleUnderTest.run(<any>{}, <any>runTestArgs).then(() => {
+			assert.isFalse(mockGenerateProjectJson.default.called, 'Should not have exported the project');
+			assert.deepEqual(mockValidateProject.default.firstCall.args, ['app.project.json', true]);
+		});
+	});
+
+	it('should import the supplied bundle', () => {
+		const runTestArgs = {
+			force: true,
+			import: 'app.project.zip',
+			importEnvironment: false,
+			out: 'app',
+			verbose: true
+		};
+		return moduleUnderTest.run(<any>{}, <any>runTestArgs).then(() => {
+			assert.isFalse(mockGenerateProjectJson.default.called, 'Should not have exported the project');
+			assert.deepEqual(mockImportProject.default.firstCall.args, [
+				{ bundle: 'app.project.zip', environment: false, force: true, out: 'app', verbose: true }
+			]);
+		});
+	});
+
+	it('should not import the supplied bundle to stdout', () => {
+		const runTestArgs = { import: 'app.project.json', out: '-' };
+		return moduleUnderTest.run(<any>{}, <any>runTestArgs).then(
+			() => {
+				assert.fail('should have rejected');
+			},
+			(e: Error) => {
+				assert.strictEqual(e.message, 'A project bundle can only be imported to a directory.');
+				assert.isFalse(mockImportProject.default.called, 'Should not have imported the project');
+			}
+		);
+	});
+
+	it('should compare the supplied bundles', () => {
+		const runTestArgs = { diff: ['old.project.json', 'new.project.zip'], json: true, verbose: false };
+		return moduleUnderTest.run(<any>{}, <any>runTestArgs).then(() => {
+			assert.isFalse(mockGenerateProjectJson.default.called, 'Should not have exported the project');
+			assert.deepEqual(mockDiffProject.default.firstCall.args, [
+				{ from: 'old.project.json', json: true, to: 'new.project.zip', verbose: false }
+			]);
+		});
+	});
+
 	it('should support eject', () => {
 		mockReadFile.returns(`{
 				"name": "@dojo/cli-test-intern",
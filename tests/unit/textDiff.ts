@@ -0,0 +1,81 @@
+const { registerSuite } = intern.getInterface('object');
+const { assert } = intern.getPlugin('chai');
+
+import { createUnifiedDiff, diffLines } from '../../src/textDiff';
+
+registerSuite('textDiff', {
+	diffLines: {
+		'same lines'() {
+			assert.deepEqual(diffLines(['a', 'b'], ['a', 'b']), [{ op: ' ', text: 'a' }, { op: ' ', text: 'b' }]);
+		},
+
+		'added and removed lines'() {
+			assert.deepEqual(diffLines(['a', 'b', 'c', 'd'], ['a', 'c', 'x', 'd']), [
+				{ op: ' ', text: 'a' },
+				{ op: '-', text: 'b' },
+				{ op: ' ', text: 'c' },
+				{ op: '+', text: 'x' },
+				{ op: ' ', text: 'd' }
+			]);
+		},
+
+		'empty texts'() {
+			assert.deepEqual(diffLines([], ['a']), [{ op: '+', text: 'a' }]);
+			assert.deepEqual(diffLines(['a'], []), [{ op: '-', text: 'a' }]);
+		},
+
+		'large rewrites'() {
+			const from = Array.from({ length: 2001 }, (value, i) => `old ${i}`);
+			const to = Array.from({ length: 2001 }, (value, i) => `new ${i}`);
+			const lines = diffLines(['a', ...from, 'b'], ['a', ...to, 'b']);
+			assert.lengthOf(lines, 4004);
+			assert.deepEqual(lines[1], { op: '-', text: 'old 0' });
+			assert.deepEqual(lines[2002], { op: '+', text: 'new 0' });
+			assert.deepEqual(lines[4003], { op: ' ', text: 'b' });
+		}
+	},
+
+	createUnifiedDiff: {
+		'same text'() {
+			assert.strictEqual(createUnifiedDiff('src/main.ts', 'a\nb', 'a\nb'), '');
+		},
+
+		'changed text'() {
+			const from = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12'].join('\n');
+			const to = ['1', '2', 'three', '4', '5', '6', '7', '8', '9', '10', '11', '12', '13'].join('\n');
+			assert.strictEqual(
+				createUnifiedDiff('./src/main.ts', from, to),
+				[
+					'--- a/src/main.ts',
+					'+++ b/src/main.ts',
+					'@@ -1,6 +1,6 @@',
+					' 1',
+					' 2',
+					'-3',
+					'+three',
+					' 4',
+					' 5',
+					' 6',
+					'@@ -10,3 +10,4 @@',
+					' 10',
+					' 11',
+					' 12',
+					'+13'
+				].join('\n')
+			);
+		},
+
+		'merges changes with overlapping context'() {
+			assert.strictEqual(
+				createUnifiedDiff('main.ts', 'a\nb\nc\nd', 'x\nb\nc\ny', 1),
+				['--- a/main.ts', '+++ b/main.ts', '@@ -1,4 +1,4 @@', '-a', '+x', ' b', ' c', '-d', '+y'].join('\n')
+			);
+		},
+
+		'added and removed text'() {
+			assert.include(createUnifiedDiff('main.ts', '', 'a\nb'), '@@ -1,1 +1,2 @@');
+			assert.include(createUnifiedDiff('main.ts', 'a', 'a\nb', 0), '@@ -1,0 +2,1 @@');
+			assert.include(createUnifiedDiff('main.ts', 'a\nb', 'b', 0), '@@ -1,1 +0,0 @@');
+		}
+	}
+});
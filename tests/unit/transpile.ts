@@ -0,0 +1,86 @@
+const { registerSuite } = intern.getInterface('object');
+const { assert } = intern.getPlugin('chai');
+
+import { ProjectFileType } from '../../src/interfaces/project.json';
+import {
+	getTranspiledNames,
+	getTranspileOptions,
+	isTranspilable,
+	isTranspiledFile,
+	transpileFile
+} from '../../src/transpile';
+
+const ts = require('typescript');
+
+registerSuite('transpile', {
+	getTranspileOptions() {
+		const options = getTranspileOptions(ts, {
+			declaration: true,
+			inlineSourceMap: true,
+			module: 'umd',
+			outDir: '_build',
+			target: 'es2015'
+		});
+		assert.strictEqual(options.module, ts.ModuleKind.UMD);
+		assert.strictEqual(options.target, ts.ScriptTarget.ES2015);
+		assert.isTrue(options.sourceMap);
+		assert.isFalse(options.declaration);
+		assert.isFalse(options.inlineSourceMap);
+		assert.isUndefined(options.outDir);
+		assert.isTrue(getTranspileOptions(ts).sourceMap);
+	},
+
+	isTranspilable() {
+		assert.isTrue(isTranspilable({ name: 'src/main.ts', text: '', type: ProjectFileType.TypeScript }));
+		assert.isTrue(isTranspilable({ name: 'src/widget.tsx', text: '', type: ProjectFileType.TypeScript }));
+		assert.isFalse(isTranspilable({ name: 'src/main.d.ts', text: '', type: ProjectFileType.TypeScript }));
+		assert.isFalse(isTranspilable({ name: 'src/main.d.ts', text: '', type: ProjectFileType.Definition }));
+		assert.isFalse(isTranspilable({ name: 'src/index.html', text: '', type: ProjectFileType.HTML }));
+	},
+
+	isTranspiledFile() {
+		assert.isTrue(isTranspiledFile({ name: 'src/main.js', text: '', type: ProjectFileType.JavaScript }));
+		assert.isTrue(isTranspiledFile({ name: 'src/main.js.map', text: '', type: ProjectFileType.SourceMap }));
+		assert.isFalse(isTranspiledFile({ name: 'src/main.js', text: '', type: ProjectFileType.PlainText }));
+	},
+
+	getTranspiledNames() {
+		const options = getTranspileOptions(ts);
+		assert.deepEqual(getTranspiledNames(ts, './src/main.ts', options), ['./src/main.js', './src/main.js.map']);
+		assert.deepEqual(getTranspiledNames(ts, 'src/widget.tsx', options), ['src/widget.js', 'src/widget.js.map']);
+		assert.deepEqual(getTranspiledNames(ts, 'src/widget.tsx', getTranspileOptions(ts, { jsx: 'preserve' })), [
+			'src/widget.jsx',
+			'src/widget.jsx.map'
+		]);
+	},
+
+	transpileFile: {
+		'transpiles the file with a source map'() {
+			const { diagnostics, files } = transpileFile(
+				ts,
+				{ name: 'src/main.ts', text: 'export const main: number = 1;\n', type: ProjectFileType.TypeScript },
+				getTranspileOptions(ts, { module: 'commonjs', target: 'es5' })
+			);
+			assert.deepEqual(diagnostics, []);
+			assert.deepEqual(files.map(({ name, type }) => [name, type]), [
+				['src/main.js', ProjectFileType.JavaScript],
+				['src/main.js.map', ProjectFileType.SourceMap]
+			]);
+			assert.include(files[0].text, 'exports.main = 1;');
+			assert.include(files[0].text, '//# sourceMappingURL=main.js.map');
+			const map = JSON.parse(files[1].text);
+			assert.strictEqual(map.file, 'main.js');
+			assert.deepEqual(map.sources, ['main.ts']);
+		},
+
+		'reports syntax errors'() {
+			const { diagnostics, files } = transpileFile(
+				ts,
+				{ name: 'src/main.ts', text: 'const main = ;', type: ProjectFileType.TypeScript },
+				getTranspileOptions(ts)
+			);
+			assert.deepEqual(diagnostics, ['src/main.ts(1,14): error TS1109: Expression expected.']);
+			assert.lengthOf(files, 2);
+		}
+	}
+});
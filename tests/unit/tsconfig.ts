@@ -0,0 +1,247 @@
+const { registerSuite } = intern.getInterface('object');
+const { assert } = intern.getPlugin('chai');
+
+import { stub, SinonStub } from 'sinon';
+
+import * as fs from 'fs';
+import * as process from 'process';
+
+import { createContext } from '../../src/context';
+import { getIncludedFiles, readTsconfig } from '../../src/tsconfig';
+import { createFixture, removeFixture } from '../support/fixtures';
+
+let readFileStub: SinonStub;
+let cwdStub: SinonStub;
+let resolveStub: SinonStub;
+let readFileMap: { [filename: string]: string };
+let resolveMap: { [mid: string]: string };
+let fixtureRoot: string;
+
+const context = createContext();
+
+registerSuite('tsconfig', {
+	before() {
+		readFileStub = stub(
+			fs,
+			'readFile',
+			(name: string, encoding: string, callback: (err?: any, data?: string) => void) => {
+				if (name in readFileMap) {
+					callback(undefined, readFileMap[name]);
+				} else {
+					callback(new Error(`file not found: ${name}`));
+				}
+			}
+		);
+		cwdStub = stub(process, 'cwd').returns('/var/projects/test-project');
+		resolveStub = stub(require('../../src/util'), 'requireResolve', (root: string, mid: string) => {
+			if (!(mid in resolveMap)) {
+				throw new Error(`Cannot find module '${mid}'`);
+			}
+			return resolveMap[mid];
+		});
+	},
+
+	after() {
+		readFileStub.restore();
+		cwdStub.restore();
+		resolveStub.restore();
+	},
+
+	beforeEach() {
+		readFileMap = {};
+		resolveMap = {};
+	},
+
+	tests: {
+		readTsconfig: {
+			async 'without extends'() {
+				readFileMap['tsconfig.json'] = JSON.stringify({
+					compilerOptions: { strict: true },
+					include: ['src/**/*.ts']
+				});
+				assert.deepEqual(await readTsconfig(context, '.', 'tsconfig.json'), {
+					compilerOptions: { strict: true },
+					include: ['src/**/*.ts']
+				});
+			},
+
+			async 'extends a relative configuration'() {
+				readFileMap['tsconfig.json'] = JSON.stringify({
+					extends: './tsconfig.base',
+					compilerOptions: { strict: true },
+					include: ['src/**/*.ts']
+				});
+				readFileMap['tsconfig.base.json'] = JSON.stringify({
+					compilerOptions: { lib: ['es2015'], strict: false },
+					include: ['**/*.ts'],
+					exclude: ['node_modules']
+				});
+				assert.deepEqual(await readTsconfig(context, '.', 'tsconfig.json'), {
+					compilerOptions: { lib: ['es2015'], strict: true },
+					include: ['src/**/*.ts'],
+					exclude: ['node_modules']
+				});
+			},
+
+			async 'reads configurations relative to the project root'() {
+				resolveMap['@dojo/configs/tsconfig.json'] =
+					'/var/projects/other-project/node_modules/@dojo/configs/tsconfig.json';
+				readFileMap['/var/projects/other-project/tsconfig.json'] = JSON.stringify({
+					extends: '@dojo/configs/tsconfig.json',
+					include: ['src/**/*.ts']
+				});
+				readFileMap['/var/projects/other-project/node_modules/@dojo/configs/tsconfig.json'] = JSON.stringify({
+					compilerOptions: { strict: true }
+				});
+				assert.deepEqual(await readTsconfig(context, '/var/projects/other-project', 'tsconfig.json'), {
+					compilerOptions: { strict: true },
+					include: ['src/**/*.ts']
+				});
+				assert.strictEqual(resolveStub.lastCall.args[0], '/var/projects/other-project');
+			},
+
+			async 'rebases paths of a configuration in another directory'() {
+				readFileMap['tsconfig.json'] = JSON.stringify({ extends: '../configs/tsconfig.base.json' });
+				readFileMap['../configs/tsconfig.base.json'] = JSON.stringify({
+					compilerOptions: { baseUrl: '.', outDir: 'dist', typeRoots: ['./types'], types: ['node'] },
+					files: ['./index.ts'],
+					include: ['src/**/*.ts']
+				});
+				assert.deepEqual(await readTsconfig(context, '.', 'tsconfig.json'), {
+					compilerOptions: {
+						baseUrl: '../configs',
+						outDir: '../configs/dist',
+						typeRoots: ['../configs/types'],
+						types: ['node']
+					},
+					files: ['../configs/index.ts'],
+					include: ['../configs/src/**/*.ts']
+				});
+			},
+
+			async 'extends a configuration from a package'() {
+				resolveMap['@dojo/build/tsconfig.json'] =
+					'/var/projects/test-project/node_modules/@dojo/build/tsconfig.json';
+				readFileMap['tsconfig.json'] = JSON.stringify({
+					extends: '@dojo/build/tsconfig',
+					include: ['src/**/*.ts']
+				});
+				readFileMap['node_modules/@dojo/build/tsconfig.json'] = JSON.stringify({
+					compilerOptions: { lib: ['dom', 'es2015'], types: ['intern'] }
+				});
+				assert.deepEqual(await readTsconfig(context, '.', 'tsconfig.json'), {
+					compilerOptions: { lib: ['dom', 'es2015'], types: ['intern'] },
+					include: ['src/**/*.ts']
+				});
+			},
+
+			async 'extends the tsconfig.json of a package'() {
+				resolveMap['@dojo/build/tsconfig.json'] =
+					'/var/projects/test-project/node_modules/@dojo/build/tsconfig.json';
+				readFileMap['tsconfig.json'] = JSON.stringify({ extends: '@dojo/build' });
+				readFileMap['node_modules/@dojo/build/tsconfig.json'] = JSON.stringify({
+					compilerOptions: { strict: true }
+				});
+				assert.deepEqual(await readTsconfig(context, '.', 'tsconfig.json'), {
+					compilerOptions: { strict: true }
+				});
+			},
+
+			async 'follows an extends chain'() {
+				resolveMap['@dojo/build/tsconfig.json'] =
+					'/var/projects/test-project/node_modules/@dojo/build/tsconfig.json';
+				readFileMap['tsconfig.json'] = JSON.stringify({
+					extends: './tsconfig.base.json',
+					compilerOptions: { target: 'es5' }
+				});
+				readFileMap['tsconfig.base.json'] = JSON.stringify({
+					extends: '@dojo/build/tsconfig.json',
+					compilerOptions: { strict: true }
+				});
+				readFileMap['node_modules/@dojo/build/tsconfig.json'] = JSON.stringify({
+					compilerOptions: { strict: false, target: 'es2015', lib: ['es2015'] },
+					include: ['src/**/*.ts']
+				});
+				assert.deepEqual(await readTsconfig(context, '.', 'tsconfig.json'), {
+					compilerOptions: { lib: ['es2015'], strict: true, target: 'es5' },
+					include: ['node_modules/@dojo/build/src/**/*.ts']
+				});
+			},
+
+			async 'unresolvable package'() {
+				readFileMap['tsconfig.json'] = JSON.stringify({ extends: '@dojo/missing/tsconfig' });
+				try {
+					await readTsconfig(context, '.', 'tsconfig.json');
+					assert.fail('should have thrown');
+				} catch (e) {
+					assert.strictEqual(
+						e.message,
+						'Unable to resolve "@dojo/missing/tsconfig" extended by "tsconfig.json".'
+					);
+				}
+			},
+
+			async 'circular extends'() {
+				readFileMap['tsconfig.json'] = JSON.stringify({ extends: './tsconfig.base.json' });
+				readFileMap['tsconfig.base.json'] = JSON.stringify({ extends: './tsconfig.json' });
+				try {
+					await readTsconfig(context, '.', 'tsconfig.json');
+					assert.fail('should have thrown');
+				} catch (e) {
+					assert.strictEqual(
+						e.message,
+						'Circular "extends" detected in "tsconfig.json" -> "tsconfig.base.json" -> "tsconfig.json".'
+					);
+				}
+			}
+		},
+
+		getIncludedFiles: {
+			before() {
+				fixtureRoot = createFixture({
+					'dist/main.d.ts': '',
+					'node_modules/@types/node/index.d.ts': '',
+					'node_modules/@types/node/package.json': '{}',
+					'node_modules/somepkg/README.md': '',
+					'node_modules/somepkg/package.json': '{}',
+					'bower_components/foo/index.ts': '',
+					'jspm_packages/bar/index.ts': '',
+					'src/main.ts': '',
+					'src/README.md': ''
+				});
+			},
+
+			after() {
+				removeFixture(fixtureRoot);
+			},
+
+			tests: {
+				async 'default exclude'() {
+					assert.sameMembers(await getIncludedFiles(fixtureRoot, {}, 'ts,md'), [
+						'dist/main.d.ts',
+						'src/main.ts',
+						'src/README.md'
+					]);
+				},
+
+				async 'custom exclude without include'() {
+					assert.sameMembers(await getIncludedFiles(fixtureRoot, { exclude: ['dist'] }, 'ts,md,json'), [
+						'src/main.ts',
+						'src/README.md'
+					]);
+				},
+
+				async 'include which names a package folder'() {
+					assert.sameMembers(
+						await getIncludedFiles(
+							fixtureRoot,
+							{ exclude: ['dist'], include: ['src', 'node_modules/somepkg'] },
+							'ts,md'
+						),
+						['node_modules/somepkg/README.md', 'src/main.ts', 'src/README.md']
+					);
+				}
+			}
+		}
+	}
+});
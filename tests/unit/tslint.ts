@@ -0,0 +1,187 @@
+const { registerSuite } = intern.getInterface('object');
+const { assert } = intern.getPlugin('chai');
+
+import * as mockery from 'mockery';
+import { stub, SinonStub } from 'sinon';
+
+import * as fs from 'fs';
+import * as process from 'process';
+
+import { createContext, ExportContext } from '../../src/context';
+import { readTslint } from '../../src/tslint';
+
+let readFileStub: SinonStub;
+let cwdStub: SinonStub;
+let resolveStub: SinonStub;
+let onWarning: SinonStub;
+let context: ExportContext;
+let readFileMap: { [filename: string]: string };
+let resolveMap: { [mid: string]: string };
+
+registerSuite('tslint', {
+	before() {
+		readFileStub = stub(
+			fs,
+			'readFile',
+			(name: string, encoding: string, callback: (err?: any, data?: string) => void) => {
+				if (name in readFileMap) {
+					callback(undefined, readFileMap[name]);
+				} else {
+					callback(new Error(`file not found: ${name}`));
+				}
+			}
+		);
+		cwdStub = stub(process, 'cwd').returns('/var/projects/test-project');
+		resolveStub = stub(require('../../src/util'), 'requireResolve', (root: string, mid: string) => {
+			if (!(mid in resolveMap)) {
+				throw new Error(`Cannot find module '${mid}'`);
+			}
+			return resolveMap[mid];
+		});
+	},
+
+	after() {
+		readFileStub.restore();
+		cwdStub.restore();
+		resolveStub.restore();
+	},
+
+	beforeEach() {
+		onWarning = stub();
+		context = createContext({ onWarning });
+		readFileMap = {};
+		resolveMap = {};
+	},
+
+	tests: {
+		readTslint: {
+			async 'without extends'() {
+				readFileMap['tslint.json'] = '{\n\t// comment\n\t"rules": { "curly": true, },\n}';
+				assert.deepEqual(await readTslint(context, '.', 'tslint.json'), { rules: { curly: true } });
+			},
+
+			async 'extends a shareable configuration from a package'() {
+				resolveMap['tslint-config-dojo'] =
+					'/var/projects/test-project/node_modules/tslint-config-dojo/tslint.json';
+				readFileMap['tslint.json'] = JSON.stringify({
+					extends: 'tslint-config-dojo',
+					rules: { 'no-any': false },
+					jsRules: { curly: true }
+				});
+				readFileMap['node_modules/tslint-config-dojo/tslint.json'] = JSON.stringify({
+					rulesDirectory: ['rules'],
+					rules: { 'no-any': true, 'no-eval': true },
+					linterOptions: { exclude: ['**/*.d.ts'] }
+				});
+				assert.deepEqual(await readTslint(context, '.', 'tslint.json'), {
+					rulesDirectory: ['node_modules/tslint-config-dojo/rules'],
+					rules: { 'no-any': false, 'no-eval': true },
+					jsRules: { curly: true },
+					linterOptions: { exclude: ['**/*.d.ts'] }
+				});
+			},
+
+			async 'extends multiple configurations'() {
+				resolveMap['tslint-config-a'] = '/var/projects/test-project/node_modules/tslint-config-a/tslint.json';
+				readFileMap['tslint.json'] = JSON.stringify({
+					extends: ['tslint-config-a', './tslint.base'],
+					rulesDirectory: 'rules'
+				});
+				readFileMap['node_modules/tslint-config-a/tslint.json'] = JSON.stringify({
+					rules: { curly: true, 'no-eval': true }
+				});
+				readFileMap['tslint.base.json'] = JSON.stringify({
+					extends: '../shared/tslint.json',
+					rules: { curly: false }
+				});
+				readFileMap['../shared/tslint.json'] = JSON.stringify({
+					rulesDirectory: ['/opt/rules', './shared-rules'],
+					rules: { 'no-any': true }
+				});
+				assert.deepEqual(await readTslint(context, '.', 'tslint.json'), {
+					rulesDirectory: ['/opt/rules', '../shared/shared-rules', 'rules'],
+					rules: { curly: false, 'no-any': true, 'no-eval': true }
+				});
+			},
+
+			async 'resolves rules directories which are packages'() {
+				resolveMap['tslint-plugin-prettier'] =
+					'/var/projects/test-project/node_modules/tslint-plugin-prettier/rules/index.js';
+				readFileMap['tslint.json'] = JSON.stringify({
+					rulesDirectory: ['tslint-plugin-prettier', 'rules', './local-rules']
+				});
+				assert.deepEqual(await readTslint(context, '.', 'tslint.json'), {
+					rulesDirectory: ['node_modules/tslint-plugin-prettier/rules', 'rules', 'local-rules']
+				});
+				assert.notInclude(resolveStub.args.map(([, mid]) => mid), './local-rules');
+			},
+
+			async 'follows an extends chain in a subdirectory'() {
+				resolveMap['tslint-config-shared'] =
+					'/var/projects/test-project/config/base/node_modules/tslint-config-shared/tslint.json';
+				readFileMap['config/tslint.json'] = JSON.stringify({
+					extends: './base/tslint',
+					rules: { curly: false }
+				});
+				readFileMap['config/base/tslint.json'] = JSON.stringify({
+					extends: 'tslint-config-shared',
+					rulesDirectory: ['./rules'],
+					rules: { curly: true }
+				});
+				readFileMap['config/base/node_modules/tslint-config-shared/tslint.json'] = JSON.stringify({
+					rulesDirectory: 'rules',
+					rules: { 'no-eval': true }
+				});
+				assert.deepEqual(await readTslint(context, '.', 'config/tslint.json'), {
+					rulesDirectory: ['config/base/node_modules/tslint-config-shared/rules', 'config/base/rules'],
+					rules: { curly: false, 'no-eval': true }
+				});
+				assert.isTrue(resolveStub.calledWith('/var/projects/test-project/config/base', 'tslint-config-shared'));
+			},
+
+			async 'extends a built in configuration'() {
+				const recommended = '/var/projects/test-project/node_modules/tslint/lib/configs/recommended';
+				resolveMap['tslint/lib/configs/recommended'] = recommended;
+				readFileMap['tslint.json'] = JSON.stringify({ extends: 'tslint:recommended', rules: { curly: false } });
+
+				mockery.enable({ warnOnUnregistered: false });
+				mockery.registerMock(recommended, { rules: { curly: true, 'no-eval': true } });
+				try {
+					assert.deepEqual(await readTslint(context, '.', 'tslint.json'), {
+						rules: { curly: false, 'no-eval': true }
+					});
+				} finally {
+					mockery.deregisterAll();
+					mockery.disable();
+				}
+			},
+
+			async 'warns about unresolvable configurations'() {
+				readFileMap['tslint.json'] = JSON.stringify({
+					extends: 'tslint-config-missing',
+					rules: { curly: true }
+				});
+				assert.deepEqual(await readTslint(context, '.', 'tslint.json'), { rules: { curly: true } });
+				assert.isTrue(onWarning.calledOnce);
+				assert.include(
+					onWarning.lastCall.args[0],
+					'unable to resolve "tslint-config-missing" extended by "tslint.json"'
+				);
+			},
+
+			async 'circular extends'() {
+				readFileMap['tslint.json'] = JSON.stringify({ extends: './tslint.base.json' });
+				readFileMap['tslint.base.json'] = JSON.stringify({ extends: './tslint.json' });
+				try {
+					await readTslint(context, '.', 'tslint.json');
+					assert.fail('should have thrown');
+				} catch (e) {
+					assert.strictEqual(
+						e.message,
+						'Circular "extends" detected in "tslint.json" -> "tslint.base.json" -> "tslint.json".'
+					);
+				}
+			}
+		}
+	}
+});
@@ -0,0 +1,146 @@
+const { registerSuite } = intern.getInterface('object');
+const { assert } = intern.getPlugin('chai');
+
+import { stub, useFakeTimers, SinonFakeTimers, SinonStub } from 'sinon';
+
+import * as fs from 'fs';
+
+import { createContext } from '../../src/context';
+import { ProjectError, UnreadableFileError } from '../../src/errors';
+import { createReadLimit, getFile } from '../../src/util';
+
+let readFileStub: SinonStub;
+let clock: SinonFakeTimers;
+let pending: { callback: Function; name: string }[];
+
+/**
+ * Create an error like those of `fs`
+ * @param code The error code
+ */
+function createError(code: string) {
+	return Object.assign(new Error(`${code}: failed`), { code });
+}
+
+/**
+ * Resolve once the pending promise callbacks have run
+ */
+function flush() {
+	return new Promise((resolve) => setImmediate(resolve));
+}
+
+registerSuite('util', {
+	beforeEach() {
+		pending = [];
+		readFileStub = stub(fs, 'readFile', (name: string, encoding: string, callback: Function) => {
+			pending.push({ callback, name });
+		});
+		clock = useFakeTimers('setTimeout', 'clearTimeout');
+	},
+
+	afterEach() {
+		readFileStub.restore();
+		clock.restore();
+	},
+
+	tests: {
+		getFile: {
+			async 'reads the file'() {
+				const result = getFile('a.ts');
+				await flush();
+				pending[0].callback(undefined, 'a');
+				assert.strictEqual(await result, 'a');
+				assert.strictEqual(readFileStub.lastCall.args[0], 'a.ts');
+			},
+
+			async 'limits the files read at once'() {
+				const context = createContext({ concurrency: 2 });
+				const results = ['a.ts', 'b.ts', 'c.ts'].map((name) => getFile(name, context));
+				await flush();
+				assert.deepEqual(pending.map(({ name }) => name), ['a.ts', 'b.ts']);
+
+				pending.shift()!.callback(undefined, 'a');
+				await flush();
+				assert.deepEqual(pending.map(({ name }) => name), ['b.ts', 'c.ts']);
+
+				pending.forEach(({ callback, name }) => callback(undefined, name));
+				assert.deepEqual(await Promise.all(results), ['a', 'b.ts', 'c.ts']);
+			},
+
+			async 'limits the files read by each context separately'() {
+				const first = createContext({ concurrency: 1 });
+				const second = createContext({ concurrency: 1 });
+				['a.ts', 'b.ts'].forEach((name) => getFile(name, first));
+				['c.ts', 'd.ts'].forEach((name) => getFile(name, second));
+				await flush();
+				assert.deepEqual(pending.map(({ name }) => name), ['a.ts', 'c.ts']);
+				pending.forEach(({ callback }) => callback(undefined, ''));
+				await flush();
+				assert.deepEqual(pending.slice(2).map(({ name }) => name), ['b.ts', 'd.ts']);
+				pending.slice(2).forEach(({ callback }) => callback(undefined, ''));
+			},
+
+			async 'retries transient errors'() {
+				const result = getFile('a.ts');
+				await flush();
+				pending.shift()!.callback(createError('EMFILE'));
+				await flush();
+				clock.tick(100);
+				await flush();
+				pending.shift()!.callback(createError('EAGAIN'));
+				await flush();
+				clock.tick(199);
+				await flush();
+				assert.lengthOf(pending, 0, 'should wait longer before retrying again');
+				clock.tick(1);
+				await flush();
+				pending.shift()!.callback(undefined, 'a');
+				assert.strictEqual(await result, 'a');
+				assert.isTrue(readFileStub.calledThrice);
+			},
+
+			async 'rejects with the file which failed'() {
+				const result = getFile('a.ts').then(
+					() => assert.fail('should have rejected'),
+					(e) => {
+						assert.instanceOf(e, UnreadableFileError);
+						assert.strictEqual(e.filename, 'a.ts');
+						assert.strictEqual(e.message, 'Unable to read "a.ts": EMFILE: failed (after 4 attempts)');
+					}
+				);
+				for (let i = 0; i < 4; i++) {
+					await flush();
+					pending.shift()!.callback(createError('EMFILE'));
+					await flush();
+					clock.tick(800);
+				}
+				await result;
+				assert.strictEqual(readFileStub.callCount, 4);
+			},
+
+			async 'does not retry other errors'() {
+				const result = getFile('a.ts').then(
+					() => assert.fail('should have rejected'),
+					(e) => {
+						assert.instanceOf(e, UnreadableFileError);
+						assert.strictEqual(e.message, 'Unable to read "a.ts": ENOENT: failed');
+					}
+				);
+				await flush();
+				pending.shift()!.callback(createError('ENOENT'));
+				await result;
+				assert.isTrue(readFileStub.calledOnce);
+			}
+		},
+
+		createReadLimit() {
+			assert.deepEqual(createReadLimit(2), { concurrency: 2, pending: [], reading: 0 });
+			assert.throws(
+				() => createReadLimit(0),
+				ProjectError,
+				'The concurrency must be a positive integer, not "0".'
+			);
+			assert.throws(() => createReadLimit(1.5), ProjectError);
+			assert.throws(() => createReadLimit(NaN), ProjectError);
+		}
+	}
+});
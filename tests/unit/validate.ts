@@ -0,0 +1,211 @@
+const { registerSuite } = intern.getInterface('object');
+const { assert } = intern.getPlugin('chai');
+
+import { stub, SinonStub } from 'sinon';
+
+import * as fs from 'fs';
+
+import { InvalidBundleError, ProjectError } from '../../src/errors';
+import { addFileHashes, getHeaderHash, SCHEMA_VERSION } from '../../src/header';
+import { ProjectFileType, ProjectJson } from '../../src/interfaces/project.json';
+import validateProject, { validateProjectJson } from '../../src/validate';
+
+let consoleLogStub: SinonStub;
+let readFileStub: SinonStub;
+let fileMap: { [filename: string]: string };
+let project: any;
+
+/**
+ * Return a copy of a project bundle with file hashes and a header
+ * @param bundle The project bundle
+ */
+function addTestHeader(bundle: ProjectJson) {
+	const hashed: any = { ...addFileHashes(bundle), header: { exporter: '1.0.0', hash: '', schema: SCHEMA_VERSION } };
+	hashed.header.hash = getHeaderHash(hashed);
+	return hashed;
+}
+
+registerSuite('validate', {
+	beforeEach() {
+		project = {
+			dependencies: {
+				development: { chai: '^4.0.0' },
+				production: { '@dojo/core': '^2.0.0' },
+				resolved: {
+					development: [{ name: 'chai', path: [], range: '^4.0.0', version: '4.1.2' }],
+					production: [{ name: '@dojo/core', path: [], range: '^2.0.0' }]
+				}
+			},
+			environmentFiles: [{ name: 'lib.es2015.d.ts', text: 'lib', type: ProjectFileType.Lib }],
+			files: [
+				{ name: './src/index.html', text: '<html></html>', type: ProjectFileType.HTML },
+				{ name: 'src/main.ts', text: 'main', type: ProjectFileType.TypeScript }
+			],
+			index: './src/index.html',
+			package: { name: 'test-package' },
+			tsconfig: { compilerOptions: {} }
+		};
+	},
+
+	tests: {
+		validateProjectJson: {
+			'valid bundle'() {
+				assert.deepEqual(validateProjectJson(project), []);
+				assert.deepEqual(validateProjectJson({ ...project, dojorc: {}, environment: 'abc', tslint: {} }), []);
+			},
+
+			'valid bundle with a header'() {
+				assert.deepEqual(validateProjectJson(addTestHeader(project)), []);
+			},
+
+			'not an object'() {
+				assert.deepEqual(validateProjectJson([]), ['"bundle" must be an object']);
+				assert.deepEqual(validateProjectJson(null), ['"bundle" must be an object']);
+			},
+
+			'missing properties'() {
+				assert.deepEqual(validateProjectJson({}), [
+					'"dependencies" must be an object',
+					'"environmentFiles" must be an array',
+					'"files" must be an array',
+					'"index" must be a string',
+					'"package" must be an object',
+					'"tsconfig" must be an object'
+				]);
+			},
+
+			'invalid optional properties'() {
+				assert.deepEqual(validateProjectJson({ ...project, dojorc: [], environment: 1, tslint: 'tslint' }), [
+					'"dojorc" must be an object',
+					'"environment" must be a string',
+					'"tslint" must be an object'
+				]);
+			},
+
+			'invalid dependencies'() {
+				project.dependencies.production.foo = 1;
+				project.dependencies.resolved.development = {};
+				project.dependencies.resolved.production.push('bar', { name: 'baz', path: [1], version: 1 });
+				assert.deepEqual(validateProjectJson(project), [
+					'"dependencies.production.foo" must be a string',
+					'"dependencies.resolved.production[1]" must be an object',
+					'"dependencies.resolved.production[2].range" must be a string',
+					'"dependencies.resolved.production[2].path[0]" must be a string',
+					'"dependencies.resolved.production[2].version" must be a string',
+					'"dependencies.resolved.development" must be an array'
+				]);
+			},
+
+			'missing index'() {
+				project.index = './src/other.html';
+				assert.deepEqual(validateProjectJson(project), [
+					'"index" "./src/other.html" is not one of the "files"'
+				]);
+			},
+
+			'invalid files'() {
+				project.files.push(null, { name: 'src/widget.ts', text: 1, type: 42 }, { text: '', type: '1' });
+				project.environmentFiles[0].type = ProjectFileType.PlainText + 1;
+				assert.deepEqual(validateProjectJson(project), [
+					`"environmentFiles[0].type" must be a ProjectFileType, not ${ProjectFileType.PlainText + 1}`,
+					'"files[2]" must be an object',
+					'"files[3].text" must be a string',
+					'"files[3].type" must be a ProjectFileType, not 42',
+					'"files[4].name" must be a string',
+					'"files[4].type" must be a ProjectFileType, not "1"'
+				]);
+			},
+
+			'duplicate files'() {
+				project.files.push({ name: 'src/main.ts', text: 'other', type: ProjectFileType.TypeScript });
+				project.environmentFiles.push({ name: 'lib.es2015.d.ts', text: 'lib', type: ProjectFileType.Lib });
+				assert.deepEqual(validateProjectJson(project), [
+					'"environmentFiles" contains "lib.es2015.d.ts" more than once',
+					'"files" contains "src/main.ts" more than once'
+				]);
+			},
+
+			'file hashes'() {
+				const bundle = addTestHeader(project);
+				bundle.files[1].text = 'changed';
+				bundle.environmentFiles[0].hash = 1;
+				assert.deepEqual(validateProjectJson(bundle), [
+					'"environmentFiles[0].hash" must be a string',
+					'"files[1].hash" does not match the text of "src/main.ts"'
+				]);
+			},
+
+			header() {
+				const bundle = addTestHeader(project);
+				bundle.index = 'src/main.ts';
+				assert.deepEqual(validateProjectJson(bundle), ['"header.hash" does not match the bundle']);
+
+				bundle.header = { commit: 1, created: 'yesterday', schema: SCHEMA_VERSION + 1 };
+				assert.deepEqual(validateProjectJson(bundle), [
+					'"header.exporter" must be a string',
+					'"header.hash" must be a string',
+					'"header.commit" must be a string',
+					'"header.created" must be a timestamp',
+					`"header.schema" ${SCHEMA_VERSION + 1} is newer than the supported version ${SCHEMA_VERSION}`
+				]);
+
+				bundle.header = 'header';
+				assert.deepEqual(validateProjectJson(bundle), ['"header" must be an object']);
+			}
+		},
+
+		validateProject: {
+			beforeEach() {
+				consoleLogStub = stub(console, 'log');
+				fileMap = {};
+				readFileStub = stub(fs, 'readFile', (name: string, callback: Function) => {
+					if (name in fileMap) {
+						callback(undefined, Buffer.from(fileMap[name]));
+					} else {
+						callback(new Error('file not found'));
+					}
+				});
+			},
+
+			afterEach() {
+				consoleLogStub.restore();
+				readFileStub.restore();
+			},
+
+			tests: {
+				async 'valid bundle'() {
+					fileMap['app.project.json'] = JSON.stringify(project);
+					await validateProject('app.project.json');
+					assert.include(consoleLogStub.lastCall.args[0], 'validated');
+					assert.include(consoleLogStub.lastCall.args[0], '"app.project.json"');
+				},
+
+				async 'invalid bundle'() {
+					fileMap['app.project.json'] = JSON.stringify({ ...project, index: 1 });
+					try {
+						await validateProject('app.project.json');
+					} catch (e) {
+						assert.instanceOf(e, InvalidBundleError);
+						assert.deepEqual(e.problems, ['"index" must be a string']);
+						assert.include(consoleLogStub.lastCall.args[0], 'invalid');
+						assert.include(consoleLogStub.lastCall.args[0], '"index" must be a string');
+						return;
+					}
+					assert.fail('validation should have failed');
+				},
+
+				async 'unreadable bundle'() {
+					fileMap['app.project.json'] = '{';
+					try {
+						await validateProject('app.project.json', true);
+					} catch (e) {
+						assert.instanceOf(e, ProjectError);
+						assert.include(e.message, 'Unable to read bundle "app.project.json"');
+						return;
+					}
+					assert.fail('validation should have failed');
+				}
+			}
+		}
+	}
+});
@@ -0,0 +1,210 @@
+const { registerSuite } = intern.getInterface('object');
+const { assert } = intern.getPlugin('chai');
+
+import { stub, SinonStub } from 'sinon';
+
+import { symlinkSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+
+import { ProjectError, TypeCheckError, UnresolvablePackageError } from '../../src/errors';
+import { createProjectJson } from '../../src/exportProject';
+import { ProjectFileType, ProjectJson } from '../../src/interfaces/project.json';
+import verifyProject, { getBundleDiagnostics } from '../../src/verify';
+import { createDirectory, createFixture, removeFixture } from '../support/fixtures';
+
+const ts = require('typescript');
+
+/**
+ * A minimal lib file, which declares the global types the compiler requires
+ */
+const LIB = [
+	'interface Array<T> { length: number; }',
+	'interface Boolean {}',
+	'interface Function {}',
+	'interface IArguments {}',
+	'interface Number {}',
+	'interface Object {}',
+	'interface RegExp {}',
+	'interface String {}'
+].join('\n');
+
+let consoleLogStub: SinonStub;
+let project: ProjectJson;
+let projectRoot: string;
+
+registerSuite('verify', {
+	beforeEach() {
+		project = {
+			dependencies: { development: {}, production: { foo: '^1.0.0' } },
+			environmentFiles: [
+				{ name: 'lib.d.ts', text: LIB, type: ProjectFileType.Lib },
+				{ name: 'node_modules/foo/package.json', text: '{"typings":"foo.d.ts"}', type: ProjectFileType.JSON },
+				{
+					name: 'node_modules/foo/foo.d.ts',
+					text: 'export declare function foo(): string;',
+					type: ProjectFileType.Definition
+				}
+			],
+			files: [
+				{ name: './src/index.html', text: '<html></html>', type: ProjectFileType.HTML },
+				{
+					name: './src/main.ts',
+					text: "import { foo } from 'foo';\nconst bar: string = foo();\n",
+					type: ProjectFileType.TypeScript
+				}
+			],
+			index: './src/index.html',
+			package: { name: 'test-package' },
+			tsconfig: { compilerOptions: { module: 'commonjs', target: 'es5' } }
+		};
+	},
+
+	tests: {
+		getBundleDiagnostics: {
+			'bundle which type checks'() {
+				assert.deepEqual(getBundleDiagnostics(ts, project), []);
+			},
+
+			'missing typings'() {
+				project.environmentFiles = project.environmentFiles.slice(0, 1);
+				assert.deepEqual(getBundleDiagnostics(ts, project), [
+					"src/main.ts(1,21): error TS2307: Cannot find module 'foo'."
+				]);
+			},
+
+			'type errors'() {
+				project.files[1].text = "import { foo } from 'foo';\nconst bar: number = foo();\n";
+				assert.deepEqual(getBundleDiagnostics(ts, project), [
+					"src/main.ts(2,7): error TS2322: Type 'string' is not assignable to type 'number'."
+				]);
+			},
+
+			'automatic type directives'() {
+				project.files[1].text = 'const baz: string = qat;\n';
+				project.environmentFiles.push({
+					name: 'node_modules/@types/qat/index.d.ts',
+					text: 'declare const qat: string;',
+					type: ProjectFileType.Definition
+				});
+				assert.deepEqual(getBundleDiagnostics(ts, project), []);
+			},
+
+			'invalid compiler options'() {
+				project.tsconfig.compilerOptions!.target = <any>'es1';
+				const diagnostics = getBundleDiagnostics(ts, project);
+				assert.lengthOf(diagnostics, 1);
+				assert.include(diagnostics[0], "error TS6046: Argument for '--target' option must be");
+			}
+		},
+
+		'exported bundles': {
+			before() {
+				projectRoot = createFixture({
+					'package.json': JSON.stringify({ name: 'test-project' }),
+					'src/index.html': '<html></html>',
+					'src/main.ts': "export const names = ['foo', 'bar'].map((name) => name.toUpperCase());\n"
+				});
+				createDirectory(join(projectRoot, 'node_modules'));
+				symlinkSync(
+					dirname(require.resolve('typescript/package.json')),
+					join(projectRoot, 'node_modules', 'typescript')
+				);
+			},
+
+			after() {
+				removeFixture(projectRoot);
+			},
+
+			tests: {
+				async 'bundle which relies on the default lib of its target'() {
+					writeFileSync(
+						join(projectRoot, 'tsconfig.json'),
+						JSON.stringify({
+							compilerOptions: { module: 'commonjs', target: 'es5' },
+							include: ['src/**/*.ts']
+						})
+					);
+					const bundle = await createProjectJson(projectRoot);
+					assert.notInclude(bundle.environmentFiles.map(({ type }) => type), ProjectFileType.Lib);
+					assert.deepEqual(getBundleDiagnostics(ts, bundle), []);
+				},
+
+				async 'bundle with lib files'() {
+					writeFileSync(
+						join(projectRoot, 'tsconfig.json'),
+						JSON.stringify({
+							compilerOptions: { lib: ['es2015'], module: 'commonjs', target: 'es5' },
+							include: ['src/**/*.ts']
+						})
+					);
+					const bundle = await createProjectJson(projectRoot);
+					assert.includeMembers(bundle.environmentFiles.map(({ name }) => name), [
+						'lib.es2015.d.ts',
+						'lib.es2015.core.d.ts',
+						'lib.es5.d.ts'
+					]);
+					assert.deepEqual(getBundleDiagnostics(ts, bundle), []);
+				}
+			}
+		},
+
+		verifyProject: {
+			beforeEach() {
+				consoleLogStub = stub(console, 'log');
+			},
+
+			afterEach() {
+				consoleLogStub.restore();
+			},
+
+			tests: {
+				async 'bundle which type checks'() {
+					await verifyProject('.', project);
+					assert.include(consoleLogStub.lastCall.args[0], 'verified');
+				},
+
+				async 'bundle with diagnostics'() {
+					project.environmentFiles = project.environmentFiles.slice(0, 1);
+					try {
+						await verifyProject('.', project);
+					} catch (e) {
+						assert.instanceOf(e, TypeCheckError);
+						assert.strictEqual(e.message, 'Bundle does not type check in isolation, diagnostics: 1.');
+						assert.deepEqual(e.diagnostics, ["src/main.ts(1,21): error TS2307: Cannot find module 'foo'."]);
+						assert.include(consoleLogStub.lastCall.args[0], "Cannot find module 'foo'");
+						return;
+					}
+					assert.fail('verification should have failed');
+				},
+
+				async 'unresolvable compiler'() {
+					const resolveStub = stub(require('../../src/util'), 'requireResolve', () => {
+						throw new Error('not found');
+					});
+					try {
+						await verifyProject('.', project);
+					} catch (e) {
+						assert.instanceOf(e, UnresolvablePackageError);
+						assert.strictEqual(e.packageName, 'typescript');
+						return;
+					} finally {
+						resolveStub.restore();
+					}
+					assert.fail('verification should have failed');
+				},
+
+				async 'compiler failure'() {
+					project.files = <any>null;
+					try {
+						await verifyProject('.', project);
+					} catch (e) {
+						assert.instanceOf(e, ProjectError);
+						assert.match(e.message, /^Unable to verify bundle: /);
+						return;
+					}
+					assert.fail('verification should have failed');
+				}
+			}
+		}
+	}
+});
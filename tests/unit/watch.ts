@@ -0,0 +1,169 @@
+const { registerSuite } = intern.getInterface('object');
+const { assert } = intern.getPlugin('chai');
+
+import * as mockery from 'mockery';
+import { spy, stub, useFakeTimers, SinonFakeTimers, SinonSpy, SinonStub } from 'sinon';
+
+import { EventEmitter } from 'events';
+
+import { ProjectFileType, ProjectJson } from '../../src/interfaces/project.json';
+
+type MockWatcher = EventEmitter & { close: SinonStub };
+
+let watchProject: (
+	root: string,
+	project: ProjectJson,
+	extensions: string,
+	onChange: (changed: string[]) => Promise<ProjectJson>
+) => { close(): void };
+let watchSpy: SinonSpy;
+let consoleLogStub: SinonStub;
+let clock: SinonFakeTimers;
+let watchers: MockWatcher[];
+let project: ProjectJson;
+
+/**
+ * Resolve once the pending promise callbacks have run
+ */
+function flush() {
+	return new Promise((resolve) => setImmediate(resolve));
+}
+
+/**
+ * Emit changes from the most recent watcher, and wait for the changes to be handled
+ * @param names The filenames which changed
+ */
+async function change(...names: string[]) {
+	names.forEach((name) => watchers[watchers.length - 1].emit('all', 'change', name));
+	clock.tick(100);
+	await flush();
+}
+
+registerSuite('watch', {
+	before() {
+		mockery.enable({
+			warnOnUnregistered: false,
+			useCleanCache: true
+		});
+
+		watchSpy = spy(() => {
+			const watcher = <MockWatcher>new EventEmitter();
+			watcher.close = stub();
+			watchers.push(watcher);
+			return watcher;
+		});
+		mockery.registerMock('chokidar', { watch: watchSpy });
+		watchProject = require('../../src/watch').watchProject;
+	},
+
+	after() {
+		mockery.deregisterAll();
+		mockery.disable();
+	},
+
+	beforeEach() {
+		consoleLogStub = stub(console, 'log');
+		clock = useFakeTimers('setTimeout', 'clearTimeout');
+		watchers = [];
+		watchSpy.reset();
+		project = {
+			dependencies: { development: {}, production: {} },
+			environmentFiles: [],
+			files: [{ name: 'src/main.ts', text: 'main', type: ProjectFileType.TypeScript }],
+			index: './src/index.html',
+			package: { name: 'test-package' },
+			tsconfig: { files: ['typings.d.ts'], include: ['src'] }
+		};
+	},
+
+	afterEach() {
+		consoleLogStub.restore();
+		clock.restore();
+	},
+
+	tests: {
+		'watches the configuration and included files'() {
+			watchProject('/var/projects/test-project', project, 'ts,html', () => Promise.resolve(project));
+			assert.isTrue(watchSpy.calledOnce);
+			assert.deepEqual(watchSpy.lastCall.args[0], [
+				'.dojorc',
+				'package.json',
+				'tsconfig.json',
+				'typings.d.ts',
+				'src/**/*.{ts,html}'
+			]);
+			const { cwd, ignored, ignoreInitial } = watchSpy.lastCall.args[1];
+			assert.strictEqual(cwd, '/var/projects/test-project');
+			assert.include(ignored, 'node_modules/**');
+			assert.isTrue(ignoreInitial);
+		},
+
+		async 'batches changes'() {
+			const onChange = stub().returns(Promise.resolve(project));
+			watchProject('.', project, 'ts', onChange);
+			watchers[0].emit('all', 'change', 'src/main.ts');
+			clock.tick(50);
+			watchers[0].emit('all', 'add', 'src/widget.ts');
+			clock.tick(50);
+			await flush();
+			assert.isFalse(onChange.called, 'should wait for further changes');
+
+			clock.tick(50);
+			await flush();
+			assert.isTrue(onChange.calledOnce);
+			assert.deepEqual(onChange.lastCall.args[0], ['src/main.ts', 'src/widget.ts']);
+			assert.include(consoleLogStub.lastCall.args[0], '"src/main.ts", "src/widget.ts"');
+		},
+
+		async 'handles one batch of changes at a time'() {
+			let resolveChange: () => void = () => undefined;
+			const onChange = stub().returns(
+				new Promise<ProjectJson>((resolve) => {
+					resolveChange = () => resolve(project);
+				})
+			);
+			watchProject('.', project, 'ts', onChange);
+			await change('src/main.ts');
+			await change('src/widget.ts');
+			assert.isTrue(onChange.calledOnce, 'should wait for the first changes to be handled');
+
+			onChange.returns(Promise.resolve(project));
+			resolveChange();
+			await flush();
+			assert.isTrue(onChange.calledTwice);
+			assert.deepEqual(onChange.lastCall.args[0], ['src/widget.ts']);
+		},
+
+		async 'watches the updated includes when tsconfig.json changes'() {
+			const updated = { ...project, tsconfig: { include: ['lib'] } };
+			watchProject('.', project, 'ts', () => Promise.resolve(updated));
+			await change('tsconfig.json');
+			assert.isTrue(watchers[0].close.calledOnce, 'should have closed the previous watcher');
+			assert.isTrue(watchSpy.calledTwice);
+			assert.deepEqual(watchSpy.lastCall.args[0], ['.dojorc', 'package.json', 'tsconfig.json', 'lib/**/*.ts']);
+		},
+
+		async 'keeps watching when handling changes fails'() {
+			const onChange = stub().returns(Promise.reject(new Error('Unable to read "src/main.ts"')));
+			watchProject('.', project, 'ts', onChange);
+			await change('src/main.ts');
+			assert.include(consoleLogStub.lastCall.args[0], 'errored');
+			assert.include(consoleLogStub.lastCall.args[0], 'Unable to read "src/main.ts"');
+
+			onChange.returns(Promise.resolve(project));
+			await change('src/main.ts');
+			assert.isTrue(onChange.calledTwice);
+		},
+
+		async close() {
+			const onChange = stub().returns(Promise.resolve(project));
+			const watcher = watchProject('.', project, 'ts', onChange);
+			watchers[0].emit('all', 'change', 'src/main.ts');
+			watcher.close();
+			clock.tick(100);
+			await flush();
+			assert.isTrue(watchers[0].close.calledOnce);
+			assert.isFalse(onChange.called, 'should not handle pending changes');
+		}
+	}
+});